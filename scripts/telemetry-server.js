@@ -0,0 +1,164 @@
+#!/usr/bin/env node
+/*
+  Local telemetry stand-in server
+  -------------------------------
+  Speaks the dashboard's WebSocket telemetry protocol (see src/Telemetry/TelemetrySource.ts)
+  so the WebSocket source can be exercised without real hardware. No dependencies: the
+  WebSocket handshake and framing (RFC 6455, text frames only) are implemented on top of
+  Node's http module.
+
+  Usage:
+    npm run telemetry-server                  # ws://localhost:8787
+    node scripts/telemetry-server.js --port 9000 --rate 20 --flaky
+
+  Options:
+    --port <n>   listen port (default 8787, or $PORT)
+    --rate <hz>  frames per second per client (default 20)
+    --flaky      drop every connection after 10–20 s to exercise reconnect/backoff
+*/
+
+const http = require("http");
+const crypto = require("crypto");
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && args[i + 1] ? args[i + 1] : fallback;
+};
+
+const PORT = Number(option("port", process.env.PORT || 8787));
+const RATE = Math.max(1, Number(option("rate", 20)));
+const FLAKY = args.includes("--flaky");
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_POWER = 6;
+
+// Same drive cycle shape as SyntheticSource: [duration in s, throttle 0–1].
+const PROFILE = [
+  [12, 0.8],
+  [15, 0.45],
+  [6, 1],
+  [10, 0.5],
+  [12, 0],
+];
+const PROFILE_LENGTH = PROFILE.reduce((sum, [d]) => sum + d, 0);
+
+function throttleAt(sec) {
+  let t = sec % PROFILE_LENGTH;
+  for (const [duration, throttle] of PROFILE) {
+    if (t < duration) return throttle;
+    t -= duration;
+  }
+  return 0;
+}
+
+// Condensed copy of the default vehicle in src/Store/VehicleModel.ts.
+function stepVelocity(v, throttle, dt) {
+  const traction = throttle > 0 ? Math.min(4000, (throttle * 25000) / Math.max(v, 1)) : 0;
+  const resistance = v > 0 ? 0.5 * 1.225 * 0.3 * 2.2 * v * v + 0.012 * 1200 * 9.81 : 0;
+  return Math.max(0, v + ((traction - resistance) / 1200) * dt);
+}
+
+function encodeText(text) {
+  const payload = Buffer.from(text);
+  const len = payload.length;
+  let header;
+  if (len < 126) {
+    header = Buffer.from([0x81, len]);
+  } else if (len < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x81;
+    header[1] = 126;
+    header.writeUInt16BE(len, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x81;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Only control frames matter here: answer pings and honour close requests.
+function handleClientData(socket, buf) {
+  if (buf.length < 2) return;
+  const opcode = buf[0] & 0x0f;
+  if (opcode === 0x8) {
+    socket.end(Buffer.from([0x88, 0]));
+  } else if (opcode === 0x9) {
+    const len = buf[1] & 0x7f;
+    const mask = buf.subarray(2, 6);
+    const payload = Buffer.from(buf.subarray(6, 6 + len).map((b, i) => b ^ mask[i % 4]));
+    socket.write(Buffer.concat([Buffer.from([0x8a, payload.length]), payload]));
+  }
+}
+
+function startClient(socket, id) {
+  const dt = 1 / RATE;
+  let elapsed = 0;
+  let velocity = 0;
+  let distance = 0;
+
+  const timer = setInterval(() => {
+    const throttle = throttleAt(elapsed);
+    const next = stepVelocity(velocity, throttle, dt);
+    distance += ((velocity + next) / 2) * dt;
+    velocity = next;
+    elapsed += dt;
+
+    const msg = {
+      type: "telemetry",
+      ts: Date.now(),
+      power: Number((throttle * MAX_POWER).toFixed(1)),
+      speed: Number((velocity * 3.6).toFixed(2)),
+      distance: Number((distance / 1000).toFixed(4)),
+    };
+    socket.write(encodeText(JSON.stringify(msg)));
+  }, 1000 / RATE);
+
+  let dropTimer = null;
+  if (FLAKY) {
+    dropTimer = setTimeout(() => {
+      console.log(`[telemetry-server] client ${id}: simulated drop`);
+      socket.destroy();
+    }, 10000 + Math.random() * 10000);
+  }
+
+  const cleanup = () => {
+    clearInterval(timer);
+    if (dropTimer) clearTimeout(dropTimer);
+  };
+  socket.on("data", (buf) => handleClientData(socket, buf));
+  socket.on("close", () => {
+    cleanup();
+    console.log(`[telemetry-server] client ${id} disconnected`);
+  });
+  socket.on("error", cleanup);
+}
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("WebSocket endpoint: connect with ws://\n");
+});
+
+let clients = 0;
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = crypto.createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  const id = ++clients;
+  console.log(`[telemetry-server] client ${id} connected`);
+  startClient(socket, id);
+});
+
+server.listen(PORT, () => {
+  console.log(`[telemetry-server] ws://localhost:${PORT} (${RATE} Hz${FLAKY ? ", flaky" : ""})`);
+});
@@ -1,13 +1,23 @@
 import "./App.scss";
+import ComparisonView from "./Components/Compare/ComparisonView";
+import "./Components/Compare/ComparisonView.scss";
 import Dashboard from "./Components/Dashboard";
 import { StoreProvider } from "./Store/DashboardContext";
+import { COMPARISON_VARIANTS } from "./Store/variants";
+
+// ?compare shows the vehicle variants side by side instead of the single dashboard.
+const COMPARE = new URLSearchParams(window.location.search).has("compare");
 
 function App() {
   return (
     <div className="App">
-      <StoreProvider>
-        <Dashboard />
-      </StoreProvider>
+      {COMPARE ? (
+        <ComparisonView variants={COMPARISON_VARIANTS} />
+      ) : (
+        <StoreProvider>
+          <Dashboard />
+        </StoreProvider>
+      )}
     </div>
   );
 }
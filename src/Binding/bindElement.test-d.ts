@@ -0,0 +1,57 @@
+/**
+ * Compile-time checks for bindElement()'s typing; tsc covers this file (npm run typecheck),
+ * Jest doesn't run it. Every @ts-expect-error line must stay an error.
+ */
+
+import { bindElement } from "./bindElement";
+
+declare class Gauge extends HTMLElement {
+  level: number;
+  caption: string;
+  get size(): number;
+  reset(): void;
+}
+
+interface Store {
+  power: number;
+  unit: "metric" | "imperial";
+  tank: { capacity: number; label: string };
+  readonly speedKmh: number;
+  setPower(n: number): void;
+}
+
+declare const el: Gauge;
+declare const store: Store;
+
+// Store paths, nested paths and selectors whose values fit the property
+bindElement(el, store, {
+  level: "power",
+  caption: "unit",
+});
+bindElement(el, store, { level: "tank.capacity", caption: "tank.label" });
+bindElement(el, store, { level: "speedKmh" });
+bindElement(el, store, { caption: (s) => `${s.power} kW` });
+
+// @ts-expect-error the path must exist on the store
+bindElement(el, store, { level: "torque" });
+
+// @ts-expect-error nested paths are checked too
+bindElement(el, store, { level: "tank.volume" });
+
+// @ts-expect-error a string can't feed a number property
+bindElement(el, store, { level: "unit" });
+
+// @ts-expect-error neither can a selector returning one
+bindElement(el, store, { level: (s) => s.unit });
+
+// @ts-expect-error methods aren't store paths
+bindElement(el, store, { level: "setPower" });
+
+// @ts-expect-error the property must exist on the element
+bindElement(el, store, { brightness: "power" });
+
+// @ts-expect-error getter-only properties can't be written
+bindElement(el, store, { size: "power" });
+
+// @ts-expect-error element methods aren't bindable
+bindElement(el, store, { reset: "power" });
@@ -0,0 +1,215 @@
+/**
+ * Store → element bindings
+ * ------------------------------
+ * One way to feed a MobX store into widget elements, from React or from plain HTML:
+ *
+ *   const dispose = bindElement(document.querySelector("engine-power")!, store, {
+ *     power: "power",                          // store path
+ *     title: (s) => `${s.powerPercent}% power`, // or a selector
+ *   });
+ *
+ * - Each entry is a MobX reaction; the first value is written right away, later changes
+ *   are queued and written once per animation frame (all bound elements share one frame),
+ *   only the latest value per property is kept
+ * - Typed: a store path must exist on the store ("tank.capacity" reaches into plain
+ *   objects), its value must be assignable to the element property, and the property must
+ *   exist and be writable; anything else is a compile error
+ * - The returned disposer stops the reactions and drops queued writes; by default it also
+ *   runs by itself once a connected element leaves the document (watched with a
+ *   MutationObserver on the document, so elements inside other shadow roots are not covered)
+ *
+ * bindElementDynamic() is the untyped core, for bindings known only at runtime (layout
+ * documents, validated by validateLayout()).
+ */
+
+import { reaction } from "mobx";
+
+type Primitive = string | number | boolean | bigint | symbol | null | undefined;
+type Leaf = Primitive | readonly unknown[] | ReadonlyMap<unknown, unknown> | ReadonlySet<unknown>;
+
+/** Dotted paths to a store's data (fields and getters, not methods), up to three levels. */
+export type StorePath<T, Depth extends unknown[] = []> = Depth["length"] extends 3
+  ? never
+  : {
+      [K in keyof T & string]: T[K] extends (...args: never[]) => unknown
+        ? never
+        : T[K] extends Leaf
+          ? K
+          : K | `${K}.${StorePath<T[K], [...Depth, unknown]>}`;
+    }[keyof T & string];
+
+/** Type of the value at a store path. */
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+  ? K extends keyof T
+    ? PathValue<T[K], Rest>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+/** Store paths whose value can be assigned to a property of type V. */
+export type PathTo<S, V> = {
+  [P in StorePath<S>]: PathValue<S, P> extends V ? P : never;
+}[StorePath<S>];
+
+export type BindingSource<S, V> = PathTo<S, V> | ((store: S) => V);
+
+type IfEquals<X, Y, A> =
+  (<T>() => T extends X ? 1 : 2) extends <T>() => T extends Y ? 1 : 2 ? A : never;
+
+/** Element properties that can be assigned: not readonly (getter-only), not methods. */
+export type WritableProperty<E> = {
+  [K in keyof E]-?: E[K] extends (...args: never[]) => unknown
+    ? never
+    : IfEquals<{ [Q in K]: E[K] }, { -readonly [Q in K]: E[K] }, K>;
+}[keyof E];
+
+export type ElementBindings<E, S> = {
+  [K in WritableProperty<E>]?: BindingSource<S, E[K]>;
+};
+
+export interface BindOptions {
+  /** Dispose once the element has been connected and leaves the document (default true) */
+  disposeOnDisconnect?: boolean;
+  /** Frame scheduler; injectable for headless runs */
+  requestFrame?: (cb: () => void) => unknown;
+}
+
+type Reader<S> = (store: S) => unknown;
+
+interface Binding {
+  el: HTMLElement;
+  pending: Map<string, unknown>;
+  requestFrame: (cb: () => void) => unknown;
+}
+
+// Writes waiting for the next frame, per scheduler (one frame for every binding sharing it).
+const queues = new Map<BindOptions["requestFrame"], Set<Binding>>();
+
+function queue(binding: Binding, key: BindOptions["requestFrame"], prop: string, value: unknown) {
+  binding.pending.set(prop, value);
+  let batch = queues.get(key);
+  if (batch) {
+    batch.add(binding);
+    return;
+  }
+  batch = new Set([binding]);
+  queues.set(key, batch);
+  binding.requestFrame(() => {
+    queues.delete(key);
+    for (const b of batch!) flush(b);
+  });
+}
+
+function flush(binding: Binding) {
+  const target = binding.el as unknown as Record<string, unknown>;
+  for (const [prop, value] of binding.pending) target[prop] = value;
+  binding.pending.clear();
+}
+
+interface Watch {
+  disposers: Set<() => void>;
+  /** Has been in the document since it was bound; removal only counts after that */
+  seen: boolean;
+}
+
+/** Bound elements and their disposers; checked after every DOM mutation. */
+const watched = new Map<HTMLElement, Watch>();
+let observer: MutationObserver | null = null;
+
+function watchDisconnect(el: HTMLElement, dispose: () => void) {
+  if (typeof MutationObserver === "undefined") return;
+  let watch = watched.get(el);
+  if (!watch) watched.set(el, (watch = { disposers: new Set(), seen: el.isConnected }));
+  watch.disposers.add(dispose);
+
+  if (!observer) {
+    observer = new MutationObserver(() => {
+      for (const [node, w] of [...watched]) {
+        if (node.isConnected) w.seen = true;
+        else if (w.seen) w.disposers.forEach((fn) => fn());
+      }
+    });
+    observer.observe(document, { childList: true, subtree: true });
+  }
+}
+
+function unwatch(el: HTMLElement, dispose: () => void) {
+  const watch = watched.get(el);
+  if (!watch) return;
+  watch.disposers.delete(dispose);
+  if (watch.disposers.size > 0) return;
+  watched.delete(el);
+  if (watched.size === 0) {
+    observer?.disconnect();
+    observer = null;
+  }
+}
+
+function readPath(store: unknown, path: string) {
+  let value = store;
+  for (const key of path.split(".")) {
+    if (value == null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/** Binds element properties to store values, type-checked against both. */
+export function bindElement<E extends HTMLElement, S extends object>(
+  el: E,
+  store: S,
+  bindings: ElementBindings<E, S>,
+  options?: BindOptions
+) {
+  const readers: Record<string, Reader<S>> = {};
+  for (const [prop, source] of Object.entries(bindings) as [string, unknown][]) {
+    if (typeof source === "function") readers[prop] = source as Reader<S>;
+    else if (typeof source === "string") readers[prop] = (s) => readPath(s, source);
+  }
+  return bindElementDynamic(el, store, readers, options);
+}
+
+/** Untyped core of bindElement(): property name → reader. */
+export function bindElementDynamic<S>(
+  el: HTMLElement,
+  store: S,
+  readers: Record<string, Reader<S>>,
+  options: BindOptions = {}
+) {
+  const key = options.requestFrame;
+  const binding: Binding = {
+    el,
+    pending: new Map(),
+    requestFrame: key ?? ((cb) => requestAnimationFrame(cb)),
+  };
+  const target = el as unknown as Record<string, unknown>;
+
+  let disposed = false;
+  const reactions = Object.entries(readers).map(([prop, read]) => {
+    let first = true;
+    return reaction(
+      () => read(store),
+      (value) => {
+        if (first) {
+          first = false;
+          target[prop] = value;
+        } else {
+          queue(binding, key, prop, value);
+        }
+      },
+      { fireImmediately: true }
+    );
+  });
+
+  const dispose = () => {
+    if (disposed) return;
+    disposed = true;
+    reactions.forEach((stop) => stop());
+    binding.pending.clear();
+    queues.get(key)?.delete(binding);
+    unwatch(el, dispose);
+  };
+  if (options.disposeOnDisconnect !== false) watchDisconnect(el, dispose);
+  return dispose;
+}
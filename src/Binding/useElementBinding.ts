@@ -0,0 +1,24 @@
+import { RefObject, useEffect, useRef } from "react";
+import { BindOptions, bindElement, ElementBindings } from "./bindElement";
+
+/**
+ * Binds the element behind `ref` to `store` for the lifetime of the calling component
+ * (see bindElement). The bindings are read when the element or the store changes, so
+ * inline objects and selectors don't rebind on every render.
+ */
+export function useElementBinding<E extends HTMLElement, S extends object>(
+  ref: RefObject<E>,
+  store: S,
+  bindings: ElementBindings<E, S>,
+  options?: BindOptions
+) {
+  const latest = useRef(bindings);
+  latest.current = bindings;
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    return bindElement(el, store, latest.current, options);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ref, store]);
+}
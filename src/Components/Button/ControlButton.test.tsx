@@ -0,0 +1,33 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import ControlButton from "./ControlButton";
+
+test("is named after its variant, with a decorative icon", () => {
+  render(
+    <>
+      <ControlButton variant="plus" onClick={() => {}} />
+      <ControlButton variant="minus" onClick={() => {}} />
+    </>
+  );
+  expect(screen.getByRole("button", { name: "Increase power" })).toBeInTheDocument();
+  expect(screen.getByRole("button", { name: "Decrease power" })).toBeInTheDocument();
+  expect(screen.queryByRole("img")).toBeNull();
+});
+
+test("a label overrides the default name", () => {
+  render(<ControlButton variant="plus" label="Faster" onClick={() => {}} />);
+  expect(screen.getByRole("button")).toHaveAccessibleName("Faster");
+});
+
+test("keyboard activation fires once", () => {
+  const onClick = jest.fn();
+  render(<ControlButton variant="plus" onClick={onClick} />);
+  // Enter / Space on a button arrive as a click with detail 0.
+  fireEvent.click(screen.getByRole("button"), { detail: 0 });
+  expect(onClick).toHaveBeenCalledTimes(1);
+});
+
+test("disabled buttons say so", () => {
+  render(<ControlButton variant="minus" disabled onClick={() => {}} />);
+  expect(screen.getByRole("button", { name: "Decrease power" })).toBeDisabled();
+});
@@ -1,17 +1,35 @@
 // src/components/ControlButton.tsx
-import React from "react";
+import React, { useEffect } from "react";
 import plusIcon from "../../assets/arrow-up-sm.svg";
 import minusIcon from "../../assets/arrow-down-sm.svg";
+import { useHoldRepeat } from "../../Input/useHoldRepeat";
 
 interface ControlButtonProps {
+  /** Fired on press, then repeatedly (accelerating) while held */
   onClick: () => void;
   variant?: "plus" | "minus";
+  disabled?: boolean;
+  /** Accessible name; defaults to "Increase power" / "Decrease power" by variant */
+  label?: string;
 }
 
-const ControlButton: React.FC<ControlButtonProps> = ({ onClick, variant }) => {
+const DEFAULT_LABELS = { plus: "Increase power", minus: "Decrease power" };
+
+const ControlButton: React.FC<ControlButtonProps> = ({ onClick, variant, disabled, label }) => {
+  const { handlers, stop } = useHoldRepeat(onClick);
+
+  useEffect(() => {
+    if (disabled) stop();
+  }, [disabled, stop]);
+
   return (
-    <button className="control-btn" onClick={onClick}>
-      <img src={variant === "plus" ? plusIcon : minusIcon} alt={variant} className="icon"></img>
+    <button
+      className="control-btn"
+      disabled={disabled}
+      aria-label={label ?? DEFAULT_LABELS[variant ?? "minus"]}
+      {...handlers}
+    >
+      <img src={variant === "plus" ? plusIcon : minusIcon} alt="" className="icon"></img>
     </button>
   );
 };
@@ -0,0 +1,73 @@
+import { observer } from "mobx-react-lite";
+import React, { useEffect, useMemo } from "react";
+import { useThrottleInput } from "../../Input/useThrottleInput";
+import { DEFAULT_LAYOUT, LAYOUTS } from "../../Layout/layouts";
+import { StoreProvider } from "../../Store/DashboardContext";
+import { DashboardConfig, DashboardStore } from "../../Store/DashboardStore";
+import { TIME_SCALES } from "../../Store/SimulationClock";
+import { StoreGroup } from "../../Store/StoreGroup";
+import { useThemeSync } from "../../Theme/useThemeSync";
+import ControlButton from "../Button/ControlButton";
+import LayoutGrid from "../Layout/LayoutGrid";
+
+/**
+ * ComparisonView:
+ * - One dashboard per vehicle config, side by side, each with its own store.
+ * - All of them are driven by the same input (keyboard, gamepad and the ▲/▼ buttons here) and
+ *   stepped by one clock, so differences come from the vehicles alone.
+ * - The theme follows the first store.
+ */
+const ComparisonView: React.FC<{ variants: DashboardConfig[] }> = observer(({ variants }) => {
+  const group = useMemo(
+    () => new StoreGroup(variants.map((config) => new DashboardStore(config))),
+    [variants]
+  );
+  const clock = group.clock;
+
+  useEffect(() => {
+    clock.start();
+    return () => clock.stop();
+  }, [clock]);
+
+  useThrottleInput(group, true);
+  useThemeSync(group.stores[0]);
+
+  return (
+    <div className="comparison-view">
+      <div className="comparison-controls">
+        <ControlButton variant="minus" onClick={() => group.dec()} />
+        <ControlButton variant="plus" onClick={() => group.inc()} />
+        <span className="status">Throttle {Math.round(group.throttle * 100)}%</span>
+        <button aria-pressed={clock.paused} onClick={() => clock.togglePause()}>
+          {clock.paused ? "Resume" : "Pause"}
+        </button>
+        <label>
+          Time scale
+          <select
+            value={clock.timeScale}
+            onChange={(e) => clock.setTimeScale(Number(e.target.value))}
+          >
+            {TIME_SCALES.map((s) => (
+              <option key={s} value={s}>
+                {s}x
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={() => group.restart()}>Restart</button>
+      </div>
+      <div className="comparison-dashboards">
+        {group.stores.map((store, i) => (
+          <StoreProvider key={i} store={store}>
+            <section className="comparison-variant" aria-label={store.name || `Vehicle ${i + 1}`}>
+              <h2>{store.name || `Vehicle ${i + 1}`}</h2>
+              <LayoutGrid layout={LAYOUTS[store.layout] ?? LAYOUTS[DEFAULT_LAYOUT]} />
+            </section>
+          </StoreProvider>
+        ))}
+      </div>
+    </div>
+  );
+});
+
+export default ComparisonView;
@@ -1,102 +1,78 @@
 import { observer } from "mobx-react-lite";
-import { useEffect, useRef } from "react";
+import { useEffect } from "react";
+import { useThrottleInput } from "../Input/useThrottleInput";
+import { DEFAULT_LAYOUT, LAYOUTS } from "../Layout/layouts";
 import { useStore } from "../Store/DashboardContext";
-import "../WebComponents/engine-power.element";
-import "../WebComponents/distance-tracker.element";
-import "../WebComponents/engine-speed.element";
-import ControlButton from "./Button/ControlButton";
+import { persistUrlState } from "../Store/urlState";
+import { useThemeSync } from "../Theme/useThemeSync";
 import "./Button/ControlButton.scss";
-
-type EnginePowerEl = HTMLElement & { power: number };
-type DistanceTrackerEl = HTMLElement & { distance: number; speed: number };
-type EngineSpeedEl = HTMLElement & { store: unknown };
+import "./Fuel/FuelStatus.scss";
+import "./Gear/GearIndicator.scss";
+import LayoutGrid from "./Layout/LayoutGrid";
+import ReplayControls from "./Replay/ReplayControls";
+import "./Replay/ReplayControls.scss";
+import ScenarioPanel from "./Scenario/ScenarioPanel";
+import "./Scenario/ScenarioPanel.scss";
+import SettingsBar from "./Settings/SettingsBar";
+import "./Settings/SettingsBar.scss";
+import "./SpeedControl/SpeedControlPanel.scss";
+import SimulationControls from "./Simulation/SimulationControls";
+import "./Simulation/SimulationControls.scss";
+import TelemetryPanel from "./Telemetry/TelemetryPanel";
+import "./Telemetry/TelemetryPanel.scss";
+import TripLogPanel from "./TripLog/TripLogPanel";
+import "./TripLog/TripLogPanel.scss";
 
 /**
- * Dashboard:
- * - Observed by MobX, so it re-renders when observable values used here change.
- * - Wires the store to web components via properties (fast) instead of attributes (stringy).
- * - Runs the simulation loop that calls store.tick(dt).
+ * SimulationLoop
+ * - Runs the store's fixed-step clock while the dashboard is mounted; each step calls
+ *   store.advance(dt): the local simulation integrates (unless a replay or a remote
+ *   source drives the store) and the warning rules are evaluated.
  */
-
-const Dashboard: React.FC = observer(() => {
+const SimulationLoop = () => {
   const store = useStore();
-  console.log("Dashboard render", { power: store.power });
-  /**
-   *  Forwarding data as refs properties seems
-   *  more efficient for FPS situations
-   */
-  const distRef = useRef<DistanceTrackerEl | null>(null);
-  const speedRef = useRef<EngineSpeedEl | null>(null);
-  const powerRef = useRef<EnginePowerEl | null>(null);
-
-  // Keep distance-tracker's live props in sync with the store.
-  // This uses direct property assignment (no attributeChangedCallback overhead).
-  useEffect(() => {
-    if (!distRef.current) return;
-    (distRef.current as any).distance = store.distance;
-    (distRef.current as any).speed = store.speed;
-  }, [store.distance, store.speed]);
 
-  // Provide the store object to engine-speed once (or when store identity changes).
-  // The element can subscribe internally and render at its own pace.
   useEffect(() => {
-    if (speedRef.current) {
-      speedRef.current.store = store;
-    }
+    store.clock.start();
+    return () => store.clock.stop();
   }, [store]);
 
-  // Property-based sync for engine-power (no attributes, no string conversion)
-  useEffect(() => {
-    const el = powerRef.current;
-    if (!el) return;
-    if (el.power !== store.power) el.power = store.power;
-  }, [store.power]);
+  return null;
+};
 
-  /**
-   * SimulationLoop
-   * - requestAnimationFrame loop that advances the MobX store over time.
-   * - Uses refs to store frame/timestamps without re-rendering.
-   * - Calls store.tick(dtMs) each frame with a clamped delta.
-   * - Cleans up on unmount.
-   */
-  const SimulationLoop = () => {
-    const store = useStore();
-    const last = useRef<number | null>(null);
-    const raf = useRef<number | null>(null);
+/**
+ * Dashboard:
+ * - Observed by MobX, so it re-renders when observable values used here change.
+ * - Builds the cluster from the selected JSON layout (see src/Layout); the layout
+ *   decides which widgets appear and which store fields feed them.
+ * - Applies the selected theme (CSS custom properties read by every widget).
+ * - Takes keyboard/gamepad throttle input while the local simulation drives the store.
+ * - Runs the simulation clock (fixed steps, pause, time scale), which ticks the store
+ *   unless a replay or a remote telemetry source is driving it.
+ * - Runs drive-cycle scenarios on that clock (see src/Scenario).
+ * - Logs the trip for CSV/JSON export (see TripLogPanel).
+ * - Mirrors power, distance, units, theme and layout in the URL hash, so the address bar
+ *   always holds a link to this setup (see src/Store/urlState).
+ */
 
-    useEffect(() => {
-      const loop = (t: number) => {
-        if (last.current != null) {
-          const dt = Math.min(100, t - last.current);
-          store.tick(dt);
-        }
-        last.current = t;
-        raf.current = requestAnimationFrame(loop);
-      };
-      raf.current = requestAnimationFrame(loop);
-      return () => {
-        if (raf.current) cancelAnimationFrame(raf.current);
-        last.current = null;
-      };
-    }, [store]);
+const Dashboard: React.FC = observer(() => {
+  const store = useStore();
 
-    return null;
-  };
+  useThemeSync(store);
+  useEffect(() => persistUrlState(store, Object.keys(LAYOUTS)), [store]);
+  useThrottleInput(store, store.inputSource === "simulation");
+  const layout = LAYOUTS[store.layout] ?? LAYOUTS[DEFAULT_LAYOUT];
 
   return (
-    <div className="dashboard">
-      <engine-speed ref={speedRef} />
+    <div className="dashboard-shell">
+      <LayoutGrid layout={layout} />
       <SimulationLoop />
-      <distance-tracker ref={distRef} />
-      <div className="engine-power-wrapper">
-        <div className="engine-power-control">
-          <engine-power ref={powerRef} />
-        </div>
-        <div className="controls">
-          <ControlButton variant="plus" onClick={() => store.inc()} />
-          <ControlButton variant="minus" onClick={() => store.dec()} />
-        </div>
-      </div>
+      <SettingsBar />
+      <SimulationControls />
+      <ScenarioPanel />
+      <TelemetryPanel />
+      <ReplayControls />
+      <TripLogPanel />
     </div>
   );
 });
@@ -0,0 +1,40 @@
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { useStore } from "../../Store/DashboardContext";
+
+const format = (v: number | null, digits = 1) =>
+  v == null || !Number.isFinite(v) ? "—" : v.toFixed(digits);
+
+/**
+ * FuelStatus:
+ * - Trip-computer readout: instant and average consumption, remaining range.
+ * - Refuel button (fills the tank); disabled while a replay or remote source drives the store.
+ */
+const FuelStatus: React.FC = observer(() => {
+  const store = useStore();
+  const live = store.inputSource === "simulation";
+
+  return (
+    <div className={`fuel-status${store.fuelLow ? " low" : ""}`}>
+      <dl>
+        <dt>Now</dt>
+        <dd>
+          {format(store.displayInstantConsumption)} {store.consumptionUnit}
+        </dd>
+        <dt>Avg</dt>
+        <dd>
+          {format(store.displayAverageConsumption)} {store.consumptionUnit}
+        </dd>
+        <dt>Range</dt>
+        <dd>
+          {format(store.displayRange, 0)} {store.distanceUnit}
+        </dd>
+      </dl>
+      <button className="refuel-btn" disabled={!live} onClick={() => store.refuel()}>
+        {store.fuelEmpty ? "Out of fuel — refuel" : "Refuel"}
+      </button>
+    </div>
+  );
+});
+
+export default FuelStatus;
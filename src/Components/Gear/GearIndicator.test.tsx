@@ -0,0 +1,52 @@
+import { act, fireEvent, render, screen } from "@testing-library/react";
+import React from "react";
+import { StoreProvider } from "../../Store/DashboardContext";
+import { DashboardStore } from "../../Store/DashboardStore";
+import GearIndicator from "./GearIndicator";
+
+function showIndicator(store = new DashboardStore({ odometerKey: null })) {
+  render(
+    <StoreProvider store={store}>
+      <GearIndicator />
+    </StoreProvider>
+  );
+  return store;
+}
+
+test("names the gear and mode in a status", () => {
+  const store = showIndicator();
+  expect(screen.getByRole("status")).toHaveAccessibleName("Automatic, gear 1");
+
+  act(() => store.setTransmission("manual"));
+  expect(screen.getByRole("status")).toHaveAccessibleName("Manual, gear 1");
+});
+
+test("shift buttons are named and disabled at the ends of the box", () => {
+  const store = showIndicator();
+  const down = screen.getByRole("button", { name: "Shift down" });
+  const up = screen.getByRole("button", { name: "Shift up" });
+  expect(down).toBeDisabled();
+  expect(up).toBeEnabled();
+
+  fireEvent.click(up);
+  expect(store.gear).toBe(2);
+  expect(screen.getByRole("status")).toHaveAccessibleName("Manual, gear 2");
+  expect(down).toBeEnabled();
+});
+
+test("the transmission toggle reports its state with aria-pressed", () => {
+  const store = showIndicator();
+  const toggle = screen.getByRole("button", { name: "Automatic transmission" });
+  expect(toggle).toHaveAttribute("aria-pressed", "true");
+
+  fireEvent.click(toggle);
+  expect(store.transmission).toBe("manual");
+  expect(toggle).toHaveAttribute("aria-pressed", "false");
+});
+
+test("controls are disabled while a replay drives the store", () => {
+  const store = new DashboardStore({ odometerKey: null });
+  store.setInputSource("replay");
+  showIndicator(store);
+  for (const button of screen.getAllByRole("button")) expect(button).toBeDisabled();
+});
@@ -0,0 +1,58 @@
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { useStore } from "../../Store/DashboardContext";
+
+/**
+ * GearIndicator:
+ * - Shows the selected gear, prefixed "D" in automatic and "M" in manual.
+ * - Shift buttons (switch the box to manual) and an A/M toggle; disabled while a
+ *   replay or remote source drives the store.
+ */
+const GearIndicator: React.FC = observer(() => {
+  const store = useStore();
+  const live = store.inputSource === "simulation";
+  const automatic = store.transmission === "automatic";
+
+  return (
+    <div className="gear-indicator">
+      <button
+        className="control-btn"
+        disabled={!live || store.gear <= 1}
+        title="Shift down"
+        aria-label="Shift down"
+        onClick={() => store.shiftDown()}
+      >
+        −
+      </button>
+      <span
+        className="gear"
+        role="status"
+        aria-label={`${automatic ? "Automatic" : "Manual"}, gear ${store.gear}`}
+      >
+        <span className="mode">{automatic ? "D" : "M"}</span>
+        {store.gear}
+      </span>
+      <button
+        className="control-btn"
+        disabled={!live || store.gear >= store.gearbox.ratios.length}
+        title="Shift up"
+        aria-label="Shift up"
+        onClick={() => store.shiftUp()}
+      >
+        +
+      </button>
+      <button
+        className="transmission-toggle"
+        disabled={!live}
+        title="Automatic / manual"
+        aria-label="Automatic transmission"
+        aria-pressed={automatic}
+        onClick={() => store.setTransmission(automatic ? "manual" : "automatic")}
+      >
+        {automatic ? "A" : "M"}
+      </button>
+    </div>
+  );
+});
+
+export default GearIndicator;
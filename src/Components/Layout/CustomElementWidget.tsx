@@ -0,0 +1,46 @@
+import React, { useEffect, useRef } from "react";
+import { bindElementDynamic } from "../../Binding/bindElement";
+import { readBinding } from "../../Layout/bindings";
+import { WidgetConfig } from "../../Layout/types";
+import { WidgetDefinition } from "../../Layout/widgets";
+import { useStore } from "../../Store/DashboardContext";
+
+/**
+ * CustomElementWidget:
+ * - Renders a web-component widget with its static layout attributes.
+ * - Applies the `bind` entries through the binding layer (src/Binding): one property
+ *   assignment per entry, batched to animation frames, then runs the widget's own
+ *   `connect` wiring; everything is disposed on unmount.
+ */
+const CustomElementWidget: React.FC<{ def: WidgetDefinition; config: WidgetConfig }> = ({
+  def,
+  config,
+}) => {
+  const store = useStore();
+  const ref = useRef<HTMLElement | null>(null);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+
+    const readers: Record<string, (s: typeof store) => unknown> = {};
+    for (const [prop, field] of Object.entries(config.bind ?? {})) {
+      readers[prop] = (s) => readBinding(s, field);
+    }
+    // React owns the element's lifetime here, so the cleanup below does the disposing.
+    const disposers = [bindElementDynamic(el, store, readers, { disposeOnDisconnect: false })];
+    if (def.connect) disposers.push(def.connect(el, store));
+
+    return () => disposers.forEach((dispose) => dispose());
+  }, [def, config, store]);
+
+  const attributes: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.attributes ?? {})) {
+    if (value === false) continue;
+    attributes[name] = value === true ? "" : String(value);
+  }
+
+  return React.createElement(def.tag as string, { ref, ...attributes });
+};
+
+export default CustomElementWidget;
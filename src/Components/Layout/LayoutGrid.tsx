@@ -0,0 +1,44 @@
+import React from "react";
+import { DashboardLayout } from "../../Layout/types";
+import { WIDGETS } from "../../Layout/widgets";
+import CustomElementWidget from "./CustomElementWidget";
+
+/**
+ * LayoutGrid:
+ * - Renders a validated layout document as a CSS grid, one cell per widget.
+ * - Web-component widgets go through CustomElementWidget; React widgets render directly.
+ */
+const LayoutGrid: React.FC<{ layout: DashboardLayout }> = ({ layout }) => {
+  const { columns, rows, gap } = layout.grid;
+
+  return (
+    <div
+      className={`dashboard layout-${layout.name}`}
+      style={{
+        gridTemplateColumns: `repeat(${columns}, auto)`,
+        gridTemplateRows: `repeat(${rows}, auto)`,
+        gap: gap ?? undefined,
+      }}
+    >
+      {layout.widgets.map((config, i) => {
+        const def = WIDGETS[config.type];
+        const { column, row, columnSpan = 1, rowSpan = 1 } = config.position;
+        const Component = def.component;
+        return (
+          <div
+            key={`${layout.name}-${i}`}
+            className={`layout-cell layout-cell-${config.type}`}
+            style={{
+              gridColumn: `${column} / span ${columnSpan}`,
+              gridRow: `${row} / span ${rowSpan}`,
+            }}
+          >
+            {Component ? <Component /> : <CustomElementWidget def={def} config={config} />}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayoutGrid;
@@ -0,0 +1,22 @@
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { useStore } from "../Store/DashboardContext";
+import ControlButton from "./Button/ControlButton";
+
+/**
+ * PowerControls:
+ * - The plus/minus power buttons; disabled while a replay or remote source drives the store.
+ */
+const PowerControls: React.FC = observer(() => {
+  const store = useStore();
+  const live = store.inputSource === "simulation";
+
+  return (
+    <div className="controls">
+      <ControlButton variant="plus" disabled={!live} onClick={() => store.inc()} />
+      <ControlButton variant="minus" disabled={!live} onClick={() => store.dec()} />
+    </div>
+  );
+});
+
+export default PowerControls;
@@ -0,0 +1,111 @@
+import { observer } from "mobx-react-lite";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useStore } from "../../Store/DashboardContext";
+import { downloadText } from "../../Telemetry/download";
+import { PLAYBACK_RATES, PlaybackRate, SessionPlayer } from "../../Telemetry/SessionPlayer";
+import { SessionRecorder } from "../../Telemetry/SessionRecorder";
+import { parseSession, TelemetrySession } from "../../Telemetry/TelemetrySession";
+
+const formatTime = (ms: number) => {
+  const s = ms / 1000;
+  const m = Math.floor(s / 60);
+  return `${m}:${(s - m * 60).toFixed(1).padStart(4, "0")}`;
+};
+
+/**
+ * ReplayControls:
+ * - Records the store into a telemetry session, saves/loads it as JSON.
+ * - While a session is loaded the player owns the store: play/pause, seek, playback rate.
+ */
+const ReplayControls: React.FC = observer(() => {
+  const store = useStore();
+  const recorder = useMemo(() => new SessionRecorder(store), [store]);
+  const player = useMemo(() => new SessionPlayer(store), [store]);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    return () => {
+      recorder.stop();
+      player.pause();
+    };
+  }, [recorder, player]);
+
+  const replay = (session: TelemetrySession) => {
+    if (recorder.recording) recorder.stop();
+    setError(null);
+    player.load(session);
+    player.play();
+  };
+
+  const save = () => {
+    if (!recorder.session) return;
+    const stamp = new Date(recorder.session.startedAt).toISOString().replace(/[:.]/g, "-");
+    downloadText(`telemetry-${stamp}.json`, JSON.stringify(recorder.session));
+  };
+
+  const load = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      replay(parseSession(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (player.loaded) {
+    return (
+      <div className="replay-controls">
+        <button onClick={() => (player.playing ? player.pause() : player.play())}>
+          {player.playing ? "Pause" : "Play"}
+        </button>
+        <input
+          type="range"
+          aria-label="Replay position"
+          min={0}
+          max={player.duration}
+          step={1}
+          value={player.position}
+          onChange={(e) => player.seek(Number(e.target.value))}
+        />
+        <span className="time">
+          {formatTime(player.position)} / {formatTime(player.duration)}
+        </span>
+        <select
+          aria-label="Playback speed"
+          value={player.rate}
+          onChange={(e) => player.setRate(Number(e.target.value) as PlaybackRate)}
+        >
+          {PLAYBACK_RATES.map((r) => (
+            <option key={r} value={r}>
+              {r}x
+            </option>
+          ))}
+        </select>
+        <button onClick={() => player.eject()}>Exit replay</button>
+      </div>
+    );
+  }
+
+  const idle = !recorder.session || recorder.recording;
+  return (
+    <div className="replay-controls">
+      <button onClick={() => (recorder.recording ? recorder.stop() : recorder.start())}>
+        {recorder.recording ? `Stop (${recorder.sampleCount})` : "Record"}
+      </button>
+      <button disabled={idle} onClick={() => recorder.session && replay(recorder.session)}>
+        Replay
+      </button>
+      <button disabled={idle} onClick={save}>
+        Save
+      </button>
+      <button onClick={() => fileRef.current?.click()}>Load…</button>
+      <input ref={fileRef} type="file" accept="application/json" hidden onChange={load} />
+      {error && <span className="error">{error}</span>}
+    </div>
+  );
+});
+
+export default ReplayControls;
@@ -0,0 +1,76 @@
+import { observer } from "mobx-react-lite";
+import React, { useEffect, useState } from "react";
+import { SCENARIOS } from "../../Scenario/scenarios";
+import { ScenarioRun } from "../../Scenario/ScenarioRun";
+import { useStore } from "../../Store/DashboardContext";
+
+const STATUS_ICON = { pending: "…", passed: "✓", failed: "✗" } as const;
+
+/**
+ * ScenarioPanel:
+ * - Picks a built-in drive cycle and runs it live on the simulation clock, so pause and
+ *   time scale apply (5x or 10x gets through a long cycle quickly).
+ * - Lists the assertions as they settle and, once the run is over, the overall result and
+ *   the distance covered.
+ * - Only shown while the local simulation drives the store.
+ */
+const ScenarioPanel: React.FC = observer(() => {
+  const store = useStore();
+  const [selected, setSelected] = useState(Object.keys(SCENARIOS)[0]);
+  const [run, setRun] = useState<ScenarioRun | null>(null);
+
+  // Leaving the dashboard (or switching stores) ends the run.
+  useEffect(() => () => run?.stop(), [run]);
+
+  if (store.inputSource !== "simulation") return null;
+
+  const running = !!run && !run.done;
+  const start = () => {
+    const next = new ScenarioRun(SCENARIOS[selected], store);
+    next.start();
+    setRun(next);
+  };
+
+  return (
+    <div className="scenario-panel">
+      <div className="controls">
+        <select
+          aria-label="Scenario"
+          value={selected}
+          disabled={running}
+          onChange={(e) => setSelected(e.target.value)}
+        >
+          {Object.keys(SCENARIOS).map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        {running ? (
+          <button onClick={() => run.stop()}>Stop</button>
+        ) : (
+          <button onClick={start}>Run</button>
+        )}
+        {run && (
+          <span className="status" role="status">
+            {running
+              ? `${run.scenario.name}: ${Math.floor(run.time / 1000)} / ${run.duration} s`
+              : `${run.report.passed ? "Passed" : "Failed"} · ${run.report.distance.toFixed(2)} km`}
+          </span>
+        )}
+      </div>
+      {run && (
+        <ul className="assertions">
+          {run.assertions.map((a, i) => (
+            <li key={i} className={a.status}>
+              <span aria-hidden="true">{STATUS_ICON[a.status]}</span> {a.label}
+              {a.detail && <span className="detail"> — {a.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+export default ScenarioPanel;
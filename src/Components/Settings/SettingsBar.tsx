@@ -0,0 +1,56 @@
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { LAYOUTS } from "../../Layout/layouts";
+import { useStore } from "../../Store/DashboardContext";
+import { isUnitSystem, UNIT_SYSTEMS } from "../../Store/units";
+
+const UNIT_LABELS = { metric: "Metric (km/h, km)", imperial: "Imperial (mph, mi)" };
+const THEME_LABELS: Record<string, string> = { auto: "Auto (system)", night: "Night", day: "Day" };
+
+/**
+ * SettingsBar:
+ * - Display preferences that apply to the whole dashboard: unit system, layout and theme.
+ */
+const SettingsBar: React.FC = observer(() => {
+  const store = useStore();
+
+  return (
+    <div className="settings-bar">
+      <label>
+        Units
+        <select
+          value={store.units}
+          onChange={(e) => isUnitSystem(e.target.value) && store.setUnits(e.target.value)}
+        >
+          {UNIT_SYSTEMS.map((u) => (
+            <option key={u} value={u}>
+              {UNIT_LABELS[u]}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Layout
+        <select value={store.layout} onChange={(e) => store.setLayout(e.target.value)}>
+          {Object.keys(LAYOUTS).map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Theme
+        <select value={store.theme} onChange={(e) => store.setTheme(e.target.value)}>
+          {store.themeNames.map((name) => (
+            <option key={name} value={name}>
+              {THEME_LABELS[name] ?? name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+});
+
+export default SettingsBar;
@@ -0,0 +1,43 @@
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { useStore } from "../../Store/DashboardContext";
+import { TIME_SCALES } from "../../Store/SimulationClock";
+
+/**
+ * SimulationControls:
+ * - Pause/resume, single step and time scale for the local simulation clock.
+ * - Shows when the clock is catching up after the tab was in the background.
+ * - Hidden while a replay or a remote source drives the store.
+ */
+const SimulationControls: React.FC = observer(() => {
+  const store = useStore();
+  const clock = store.clock;
+  if (store.inputSource !== "simulation") return null;
+
+  return (
+    <div className="simulation-controls">
+      <button aria-pressed={clock.paused} onClick={() => clock.togglePause()}>
+        {clock.paused ? "Resume" : "Pause"}
+      </button>
+      <button disabled={!clock.paused} onClick={() => clock.stepOnce()}>
+        Step
+      </button>
+      <label>
+        Time scale
+        <select
+          value={clock.timeScale}
+          onChange={(e) => clock.setTimeScale(Number(e.target.value))}
+        >
+          {TIME_SCALES.map((s) => (
+            <option key={s} value={s}>
+              {s}x
+            </option>
+          ))}
+        </select>
+      </label>
+      {clock.catchingUp && <span className="status">Catching up…</span>}
+    </div>
+  );
+});
+
+export default SimulationControls;
@@ -0,0 +1,64 @@
+import { observer } from "mobx-react-lite";
+import React from "react";
+import { useStore } from "../../Store/DashboardContext";
+import { CRUISE_MIN_SPEED } from "../../Store/SpeedControl";
+import { toDisplaySpeed } from "../../Store/units";
+
+const MODE_LABELS = { cruise: "Cruise", limiter: "Limit", off: "Off" };
+
+/**
+ * SpeedControlPanel:
+ * - Shows the active speed control mode and its target ("Cruise 80 km/h", "Limit 50 km/h");
+ *   a cancelled setup stays listed, dimmed, until it is resumed or replaced.
+ * - Set cruise / set limit (at the current speed), resume and cancel; disabled while a
+ *   replay or remote source drives the store. Lowering power cancels cruise control.
+ */
+const SpeedControlPanel: React.FC = observer(() => {
+  const store = useStore();
+  const live = store.inputSource === "simulation";
+  const control = store.speedControl;
+  const mode = store.speedControlMode;
+  const target = control ? Math.round(toDisplaySpeed(control.target, store.units)) : null;
+  const text = control
+    ? `${MODE_LABELS[control.mode]} ${target} ${store.speedUnit}`
+    : MODE_LABELS.off;
+
+  return (
+    <div className="speed-control">
+      <span
+        className={`status${mode === "off" ? " off" : ""}`}
+        role="status"
+        aria-label={control && !control.engaged ? `${text}, cancelled` : text}
+      >
+        {text}
+      </span>
+      <div className="actions">
+        <button
+          disabled={!live || store.velocity < CRUISE_MIN_SPEED}
+          aria-pressed={mode === "cruise"}
+          onClick={() => store.setCruise()}
+        >
+          Set cruise
+        </button>
+        <button
+          disabled={!live}
+          aria-pressed={mode === "limiter"}
+          onClick={() => store.setLimiter()}
+        >
+          Set limit
+        </button>
+        <button
+          disabled={!live || !control || control.engaged}
+          onClick={() => store.resumeSpeedControl()}
+        >
+          Resume
+        </button>
+        <button disabled={!live || mode === "off"} onClick={() => store.cancelSpeedControl()}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+});
+
+export default SpeedControlPanel;
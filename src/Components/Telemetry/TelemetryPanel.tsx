@@ -0,0 +1,64 @@
+import { observer } from "mobx-react-lite";
+import React, { useEffect, useMemo, useState } from "react";
+import { useStore } from "../../Store/DashboardContext";
+import { BroadcastChannelSource } from "../../Telemetry/BroadcastChannelSource";
+import { SyntheticSource } from "../../Telemetry/SyntheticSource";
+import { TelemetryLink } from "../../Telemetry/TelemetryLink";
+import { TelemetrySource } from "../../Telemetry/TelemetrySource";
+import { WebSocketSource } from "../../Telemetry/WebSocketSource";
+
+const TELEMETRY_URL = process.env.REACT_APP_TELEMETRY_URL ?? "ws://localhost:8787";
+
+const SOURCES: Record<string, { label: string; create?: () => TelemetrySource }> = {
+  local: { label: "Local simulation" },
+  synthetic: { label: "Synthetic generator", create: () => new SyntheticSource() },
+  broadcast: { label: "BroadcastChannel", create: () => new BroadcastChannelSource() },
+  websocket: {
+    label: `WebSocket (${TELEMETRY_URL})`,
+    create: () => new WebSocketSource(TELEMETRY_URL),
+  },
+};
+
+/**
+ * TelemetryPanel:
+ * - Lets the user pick where live data comes from (local simulation or a telemetry source).
+ * - Shows the connection state; when the source drops the store is back on the local
+ *   simulation, which the "fallback" badge makes visible.
+ */
+const TelemetryPanel: React.FC = observer(() => {
+  const store = useStore();
+  const link = useMemo(() => new TelemetryLink(store), [store]);
+  const [selected, setSelected] = useState("local");
+
+  useEffect(() => {
+    const create = SOURCES[selected].create;
+    if (create) link.attach(create());
+    return () => link.detach();
+  }, [link, selected]);
+
+  const fallback = selected !== "local" && store.inputSource === "simulation";
+
+  return (
+    <div className="telemetry-panel">
+      <select
+        aria-label="Telemetry source"
+        value={selected}
+        onChange={(e) => setSelected(e.target.value)}
+      >
+        {Object.entries(SOURCES).map(([key, { label }]) => (
+          <option key={key} value={key}>
+            {label}
+          </option>
+        ))}
+      </select>
+      {selected !== "local" && (
+        <span className={`status status-${link.status}`} role="status">
+          {link.status}
+          {fallback && " · local fallback"}
+        </span>
+      )}
+    </div>
+  );
+});
+
+export default TelemetryPanel;
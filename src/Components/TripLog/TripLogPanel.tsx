@@ -0,0 +1,55 @@
+import { observer } from "mobx-react-lite";
+import React, { useEffect, useMemo } from "react";
+import { useStore } from "../../Store/DashboardContext";
+import { DISTANCE_UNIT, SPEED_UNIT, toDisplayDistance, toDisplaySpeed } from "../../Store/units";
+import { downloadText } from "../../Telemetry/download";
+import { TripLogger } from "../../Telemetry/TripLogger";
+import { tripToCsv, tripToJson } from "../../Telemetry/TripLog";
+
+const formatDuration = (s: number) => {
+  const m = Math.floor(s / 60);
+  return `${m}:${String(Math.floor(s - m * 60)).padStart(2, "0")}`;
+};
+
+/**
+ * TripLogPanel:
+ * - Logs the trip from the moment the dashboard mounts (one sample per simulated second).
+ * - Shows the running summary in the selected units; exports the trip (metric) as CSV or
+ *   JSON, summary included.
+ * - "New trip" throws the current log away and starts over.
+ */
+const TripLogPanel: React.FC = observer(() => {
+  const store = useStore();
+  const logger = useMemo(() => new TripLogger(store), [store]);
+
+  useEffect(() => {
+    logger.start();
+    return () => logger.stop();
+  }, [logger]);
+
+  const { summary } = logger;
+  const units = store.units;
+
+  const exportAs = (format: "csv" | "json") => {
+    const log = logger.log;
+    const stamp = new Date(log.startedAt).toISOString().replace(/[:.]/g, "-");
+    if (format === "csv") downloadText(`trip-${stamp}.csv`, tripToCsv(log), "text/csv");
+    else downloadText(`trip-${stamp}.json`, tripToJson(log));
+  };
+
+  return (
+    <div className="trip-log-panel">
+      <span className="summary">
+        Trip {formatDuration(summary.duration)} ·{" "}
+        {toDisplayDistance(summary.distance * 1000, units).toFixed(1)} {DISTANCE_UNIT[units]} · avg{" "}
+        {toDisplaySpeed(summary.averageSpeed / 3.6, units).toFixed(0)} · max{" "}
+        {toDisplaySpeed(summary.maxSpeed / 3.6, units).toFixed(0)} {SPEED_UNIT[units]}
+      </span>
+      <button onClick={() => exportAs("csv")}>Export CSV</button>
+      <button onClick={() => exportAs("json")}>Export JSON</button>
+      <button onClick={() => logger.start()}>New trip</button>
+    </div>
+  );
+});
+
+export default TripLogPanel;
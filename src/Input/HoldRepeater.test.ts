@@ -0,0 +1,47 @@
+import { DEFAULT_REPEAT } from "./bindings";
+import { HoldRepeater } from "./HoldRepeater";
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => jest.useRealTimers());
+
+test("fires on press, then repeats after the delay", () => {
+  const fire = jest.fn();
+  const repeater = new HoldRepeater();
+
+  repeater.start(fire);
+  expect(fire).toHaveBeenCalledTimes(1);
+  jest.advanceTimersByTime(DEFAULT_REPEAT.delayMs - 1);
+  expect(fire).toHaveBeenCalledTimes(1);
+  jest.advanceTimersByTime(1);
+  expect(fire).toHaveBeenCalledTimes(2);
+  jest.advanceTimersByTime(DEFAULT_REPEAT.intervalMs);
+  expect(fire).toHaveBeenCalledTimes(3);
+  expect(repeater.active).toBe(true);
+});
+
+test("speeds up while held, down to minIntervalMs", () => {
+  const times: number[] = [];
+  const repeater = new HoldRepeater({
+    delayMs: 100,
+    intervalMs: 100,
+    minIntervalMs: 25,
+    acceleration: 0.5,
+  });
+  const start = Date.now();
+  repeater.start(() => times.push(Date.now() - start));
+  jest.advanceTimersByTime(500);
+
+  const gaps = times.slice(1).map((t, i) => t - times[i]);
+  // press, +100 delay, then 50, 25, 25, ...
+  expect(gaps.slice(0, 4)).toEqual([100, 50, 25, 25]);
+});
+
+test("stop() ends the repeat", () => {
+  const fire = jest.fn();
+  const repeater = new HoldRepeater();
+  repeater.start(fire);
+  repeater.stop();
+  jest.advanceTimersByTime(5000);
+  expect(fire).toHaveBeenCalledTimes(1);
+  expect(repeater.active).toBe(false);
+});
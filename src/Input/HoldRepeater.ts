@@ -0,0 +1,56 @@
+/**
+ * HoldRepeater
+ * ------------------------------
+ * Fires an action once on press, then repeatedly while held, speeding up the
+ * longer it is held (see RepeatOptions). Used by keyboard, gamepad buttons and
+ * the on-screen ControlButton so they all feel the same.
+ *
+ * Timers are injectable so the acceleration curve can be driven by fake timers.
+ */
+
+import { DEFAULT_REPEAT, RepeatOptions } from "./bindings";
+
+export interface RepeatTimers {
+  setTimeout(fn: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+const browserTimers: RepeatTimers = {
+  setTimeout: (fn, ms) => window.setTimeout(fn, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle as number),
+};
+
+export class HoldRepeater {
+  private handle: unknown = null;
+
+  constructor(
+    private options: RepeatOptions = DEFAULT_REPEAT,
+    private timers: RepeatTimers = browserTimers
+  ) {}
+
+  get active() {
+    return this.handle != null;
+  }
+
+  start(fire: () => void) {
+    this.stop();
+    fire();
+
+    let interval = this.options.intervalMs;
+    const repeat = () => {
+      fire();
+      interval = Math.max(this.options.minIntervalMs, interval * this.options.acceleration);
+      this.handle = this.timers.setTimeout(repeat, interval);
+    };
+    this.handle = this.timers.setTimeout(repeat, this.options.delayMs);
+  }
+
+  stop() {
+    if (this.handle != null) this.timers.clearTimeout(this.handle);
+    this.handle = null;
+  }
+
+  setOptions(options: RepeatOptions) {
+    this.options = options;
+  }
+}
@@ -0,0 +1,191 @@
+import { DEFAULT_REPEAT } from "./bindings";
+import { GamepadLike, InputController, ThrottleTarget } from "./InputController";
+
+/** Records what the controller asks for; power moves like the store's, in 0.1 steps. */
+function fakeTarget() {
+  const target = {
+    power: 0,
+    inc: jest.fn(() => step(0.1)),
+    dec: jest.fn(() => step(-0.1)),
+    setPower: jest.fn((n: number) => {
+      target.power = n;
+    }),
+  };
+  const step = (d: number) => {
+    target.power = Number((target.power + d).toFixed(1));
+  };
+  return target;
+}
+
+/** A standard-mapping pad: 17 buttons, trigger 7, d-pad up/down 12/13. */
+function fakePad(): GamepadLike & { buttons: { pressed: boolean; value: number }[] } {
+  return {
+    connected: true,
+    buttons: Array.from({ length: 17 }, () => ({ pressed: false, value: 0 })),
+  };
+}
+
+const key = (type: "keydown" | "keyup", code: string, init: KeyboardEventInit = {}) =>
+  window.dispatchEvent(new KeyboardEvent(type, { code, bubbles: true, cancelable: true, ...init }));
+
+let controller: InputController | undefined;
+
+function attach(target: ThrottleTarget, enabled = () => true) {
+  controller = new InputController(target, {
+    maxPower: 6,
+    isEnabled: enabled,
+    // Frames are driven by calling poll() directly.
+    requestFrame: () => 0,
+    cancelFrame: () => {},
+  });
+  controller.attach();
+  return controller;
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => {
+  controller?.dispose();
+  controller = undefined;
+  jest.useRealTimers();
+  delete (navigator as { getGamepads?: unknown }).getGamepads;
+});
+
+describe("keyboard", () => {
+  test("ArrowUp / KeyS step power up and down once per press", () => {
+    const target = fakeTarget();
+    attach(target);
+
+    key("keydown", "ArrowUp");
+    key("keyup", "ArrowUp");
+    key("keydown", "KeyW");
+    key("keyup", "KeyW");
+    key("keydown", "KeyS");
+    key("keyup", "KeyS");
+
+    expect(target.inc).toHaveBeenCalledTimes(2);
+    expect(target.dec).toHaveBeenCalledTimes(1);
+    expect(target.power).toBe(0.1);
+  });
+
+  test("number keys set presets", () => {
+    const target = fakeTarget();
+    attach(target);
+
+    key("keydown", "Digit4");
+    expect(target.setPower).toHaveBeenLastCalledWith(4);
+    key("keydown", "Digit0");
+    expect(target.setPower).toHaveBeenLastCalledWith(0);
+  });
+
+  test("holding a key repeats until it is released", () => {
+    const target = fakeTarget();
+    attach(target);
+
+    key("keydown", "ArrowUp");
+    jest.advanceTimersByTime(DEFAULT_REPEAT.delayMs + DEFAULT_REPEAT.intervalMs);
+    expect(target.inc).toHaveBeenCalledTimes(3);
+
+    // The browser's own key repeat is ignored; the repeater sets the pace.
+    key("keydown", "ArrowUp", { repeat: true });
+    expect(target.inc).toHaveBeenCalledTimes(3);
+
+    key("keyup", "ArrowUp");
+    jest.advanceTimersByTime(2000);
+    expect(target.inc).toHaveBeenCalledTimes(3);
+  });
+
+  test("leaves form fields and modified keys alone", () => {
+    const target = fakeTarget();
+    attach(target);
+    const input = document.createElement("input");
+    document.body.appendChild(input);
+
+    input.dispatchEvent(new KeyboardEvent("keydown", { code: "ArrowUp", bubbles: true }));
+    key("keydown", "ArrowUp", { ctrlKey: true });
+
+    expect(target.inc).not.toHaveBeenCalled();
+    input.remove();
+  });
+
+  test("skips keys a focused widget already handled", () => {
+    const target = fakeTarget();
+    attach(target);
+    const handled = new KeyboardEvent("keydown", { code: "ArrowUp", cancelable: true });
+    handled.preventDefault();
+    window.dispatchEvent(handled);
+    expect(target.inc).not.toHaveBeenCalled();
+  });
+
+  test("does nothing while disabled", () => {
+    const target = fakeTarget();
+    attach(target, () => false);
+    key("keydown", "ArrowUp");
+    key("keydown", "Digit3");
+    expect(target.inc).not.toHaveBeenCalled();
+    expect(target.setPower).not.toHaveBeenCalled();
+  });
+});
+
+describe("gamepad", () => {
+  function withPad() {
+    const pad = fakePad();
+    Object.defineProperty(navigator, "getGamepads", {
+      configurable: true,
+      value: () => [null, pad],
+    });
+    return pad;
+  }
+
+  test("a moving trigger sets absolute power", () => {
+    const pad = withPad();
+    const target = fakeTarget();
+    const ctl = attach(target);
+
+    ctl.poll(); // resting trigger is only recorded
+    expect(target.setPower).not.toHaveBeenCalled();
+
+    pad.buttons[7].value = 0.5;
+    ctl.poll();
+    expect(target.setPower).toHaveBeenLastCalledWith(3);
+
+    // Jitter inside the deadzone is ignored.
+    pad.buttons[7].value = 0.51;
+    ctl.poll();
+    expect(target.setPower).toHaveBeenCalledTimes(1);
+  });
+
+  test("d-pad up/down step and repeat while held", () => {
+    const pad = withPad();
+    const target = fakeTarget();
+    const ctl = attach(target);
+
+    pad.buttons[12].pressed = true;
+    ctl.poll();
+    ctl.poll(); // still held: no second press
+    expect(target.inc).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(DEFAULT_REPEAT.delayMs);
+    expect(target.inc).toHaveBeenCalledTimes(2);
+
+    pad.buttons[12].pressed = false;
+    ctl.poll();
+    jest.advanceTimersByTime(2000);
+    expect(target.inc).toHaveBeenCalledTimes(2);
+
+    pad.buttons[13].pressed = true;
+    ctl.poll();
+    expect(target.dec).toHaveBeenCalledTimes(1);
+  });
+
+  test("a disconnected pad releases held buttons", () => {
+    const pad = withPad();
+    const target = fakeTarget();
+    const ctl = attach(target);
+
+    pad.buttons[12].pressed = true;
+    ctl.poll();
+    pad.connected = false;
+    ctl.poll();
+    jest.advanceTimersByTime(2000);
+    expect(target.inc).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * InputController
+ * ------------------------------
+ * Maps keyboard and Gamepad API input to throttle actions on a `ThrottleTarget`
+ * (the DashboardStore satisfies it).
+ *
+ * - Keyboard: keydown starts a hold-to-repeat for inc/dec bindings (the browser's
+ *   own key repeat is ignored so every input accelerates the same way); presets
+ *   fire once. Events from form fields are left alone.
+ * - Gamepad: polled once per frame. The analog trigger sets absolute power
+ *   (trigger × maxPower) whenever it moves past the deadzone; digital buttons
+ *   behave like keys.
+ * - `isEnabled` lets the host mute input, e.g. while a replay drives the store.
+ *
+ * Everything the browser provides (event target, getGamepads, frame scheduler,
+ * timers) is injectable, so a synthetic gamepad can be fed in jsdom.
+ */
+
+import { DEFAULT_BINDINGS, InputBindings, ThrottleAction } from "./bindings";
+import { HoldRepeater, RepeatTimers } from "./HoldRepeater";
+
+export interface ThrottleTarget {
+  inc(): void;
+  dec(): void;
+  setPower(n: number): void;
+  /** Top of the target's power scale, when it has its own (DashboardStore does) */
+  readonly maxPower?: number;
+}
+
+/** The subset of the Gamepad API the controller reads. */
+export interface GamepadLike {
+  connected: boolean;
+  buttons: ReadonlyArray<{ pressed: boolean; value: number }>;
+}
+
+export interface InputControllerOptions {
+  maxPower: number;
+  bindings?: InputBindings;
+  isEnabled?: () => boolean;
+  eventTarget?: Pick<Window, "addEventListener" | "removeEventListener">;
+  getGamepads?: () => ReadonlyArray<GamepadLike | null>;
+  requestFrame?: (cb: () => void) => unknown;
+  cancelFrame?: (handle: unknown) => void;
+  timers?: RepeatTimers;
+}
+
+const FORM_FIELDS = ["INPUT", "SELECT", "TEXTAREA"];
+
+export class InputController {
+  private bindings: InputBindings;
+  private readonly keyRepeat: HoldRepeater;
+  private readonly padRepeat: HoldRepeater;
+  private heldKey: string | null = null;
+  private heldButton: number | null = null;
+  private lastTrigger: number | null = null;
+  private frame: unknown = null;
+  private attached = false;
+
+  constructor(private target: ThrottleTarget, private options: InputControllerOptions) {
+    this.bindings = options.bindings ?? DEFAULT_BINDINGS;
+    this.keyRepeat = new HoldRepeater(this.bindings.repeat, options.timers);
+    this.padRepeat = new HoldRepeater(this.bindings.repeat, options.timers);
+  }
+
+  attach() {
+    if (this.attached) return;
+    this.attached = true;
+    const events = this.events;
+    events?.addEventListener("keydown", this.onKeyDown);
+    events?.addEventListener("keyup", this.onKeyUp);
+    events?.addEventListener("blur", this.releaseAll);
+    if (this.getGamepads) this.schedulePoll();
+  }
+
+  dispose() {
+    if (!this.attached) return;
+    this.attached = false;
+    const events = this.events;
+    events?.removeEventListener("keydown", this.onKeyDown);
+    events?.removeEventListener("keyup", this.onKeyUp);
+    events?.removeEventListener("blur", this.releaseAll);
+    if (this.frame != null) this.cancelFrame(this.frame);
+    this.frame = null;
+    this.releaseAll();
+  }
+
+  setBindings(bindings: InputBindings) {
+    this.releaseAll();
+    this.bindings = bindings;
+    this.keyRepeat.setOptions(bindings.repeat);
+    this.padRepeat.setOptions(bindings.repeat);
+  }
+
+  /** Reads the pads once; called every frame while attached, and directly by tests. */
+  poll() {
+    const pad = this.getGamepads?.().find((p): p is GamepadLike => !!p && p.connected);
+    if (!pad || !this.enabled) {
+      this.releaseButton();
+      return;
+    }
+
+    const { throttleButton, deadzone, buttons } = this.bindings.gamepad;
+    if (throttleButton != null && pad.buttons[throttleButton]) {
+      const value = pad.buttons[throttleButton].value;
+      // Only a moving trigger takes over, so a resting pad doesn't fight the keyboard.
+      if (this.lastTrigger == null || Math.abs(value - this.lastTrigger) > deadzone) {
+        if (this.lastTrigger != null) this.target.setPower(value * this.options.maxPower);
+        this.lastTrigger = value;
+      }
+    }
+
+    const pressed = Object.keys(buttons)
+      .map(Number)
+      .find((i) => pad.buttons[i]?.pressed);
+    if (pressed === undefined) {
+      this.releaseButton();
+    } else if (pressed !== this.heldButton) {
+      this.heldButton = pressed;
+      this.press(buttons[pressed], this.padRepeat);
+    }
+  }
+
+  private get enabled() {
+    return this.options.isEnabled?.() ?? true;
+  }
+
+  private get events() {
+    return this.options.eventTarget ?? (typeof window !== "undefined" ? window : undefined);
+  }
+
+  private get getGamepads() {
+    if (this.options.getGamepads) return this.options.getGamepads;
+    if (typeof navigator !== "undefined" && typeof navigator.getGamepads === "function") {
+      return () => navigator.getGamepads();
+    }
+    return undefined;
+  }
+
+  private cancelFrame(handle: unknown) {
+    if (this.options.cancelFrame) this.options.cancelFrame(handle);
+    else cancelAnimationFrame(handle as number);
+  }
+
+  private schedulePoll() {
+    const request = this.options.requestFrame ?? ((cb: () => void) => requestAnimationFrame(cb));
+    this.frame = request(() => {
+      if (!this.attached) return;
+      this.poll();
+      this.schedulePoll();
+    });
+  }
+
+  private press(action: ThrottleAction, repeater: HoldRepeater) {
+    switch (action.type) {
+      case "inc":
+        repeater.start(() => this.target.inc());
+        break;
+      case "dec":
+        repeater.start(() => this.target.dec());
+        break;
+      case "preset":
+        repeater.stop();
+        this.target.setPower(action.power);
+        break;
+    }
+  }
+
+  private onKeyDown = (e: Event) => {
+    const event = e as KeyboardEvent;
+    const el = event.target as HTMLElement | null;
+    // Already handled, e.g. arrows on a focused <engine-power> that proposes its own value.
+    if (event.defaultPrevented) return;
+    if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) {
+      if (event.repeat && this.bindings.keys[event.code]) event.preventDefault();
+      return;
+    }
+    if (el && FORM_FIELDS.includes(el.tagName)) return;
+
+    const action = this.bindings.keys[event.code];
+    if (!action || !this.enabled) return;
+    event.preventDefault();
+    this.heldKey = event.code;
+    this.press(action, this.keyRepeat);
+  };
+
+  private onKeyUp = (e: Event) => {
+    if ((e as KeyboardEvent).code !== this.heldKey) return;
+    this.heldKey = null;
+    this.keyRepeat.stop();
+  };
+
+  private releaseButton() {
+    this.heldButton = null;
+    this.padRepeat.stop();
+  }
+
+  private releaseAll = () => {
+    this.heldKey = null;
+    this.keyRepeat.stop();
+    this.releaseButton();
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Input bindings
+ * ------------------------------
+ * Declarative map from physical inputs to throttle actions. Everything here is
+ * plain data so a team can ship its own bindings (or load them from JSON) and
+ * pass them to `InputController` / `useThrottleInput`.
+ *
+ * - keys: KeyboardEvent.code → action ("inc", "dec" or a power preset)
+ * - gamepad:
+ *   • throttleButton: index of the analog trigger mapped to absolute power (7 = right trigger
+ *     in the standard mapping), or null to disable it
+ *   • deadzone: trigger changes smaller than this are ignored
+ *   • buttons: digital button index → action (12/13 = d-pad up/down)
+ * - repeat: hold-to-repeat timing shared by keys, pad buttons and on-screen buttons
+ */
+
+export type ThrottleAction = { type: "inc" } | { type: "dec" } | { type: "preset"; power: number };
+
+export interface RepeatOptions {
+  /** Delay before the first repeat */
+  delayMs: number;
+  /** Interval of the first repeats */
+  intervalMs: number;
+  /** Fastest interval reached while holding */
+  minIntervalMs: number;
+  /** Factor applied to the interval after every repeat (0–1, lower accelerates faster) */
+  acceleration: number;
+}
+
+export interface InputBindings {
+  keys: Record<string, ThrottleAction>;
+  gamepad: {
+    throttleButton: number | null;
+    deadzone: number;
+    buttons: Record<number, ThrottleAction>;
+  };
+  repeat: RepeatOptions;
+}
+
+const INC: ThrottleAction = { type: "inc" };
+const DEC: ThrottleAction = { type: "dec" };
+const preset = (power: number): ThrottleAction => ({ type: "preset", power });
+
+export const DEFAULT_REPEAT: RepeatOptions = {
+  delayMs: 400,
+  intervalMs: 120,
+  minIntervalMs: 30,
+  acceleration: 0.85,
+};
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keys: {
+    ArrowUp: INC,
+    KeyW: INC,
+    ArrowDown: DEC,
+    KeyS: DEC,
+    Digit0: preset(0),
+    Digit1: preset(1),
+    Digit2: preset(2),
+    Digit3: preset(3),
+    Digit4: preset(4),
+    Digit5: preset(5),
+    Digit6: preset(6),
+  },
+  gamepad: {
+    throttleButton: 7,
+    deadzone: 0.02,
+    buttons: { 12: INC, 13: DEC },
+  },
+  repeat: DEFAULT_REPEAT,
+};
+
+/** Shallow-merges overrides per section, so `{ keys: {...} }` keeps the default gamepad setup. */
+export function mergeBindings(overrides: Partial<InputBindings>): InputBindings {
+  return {
+    keys: overrides.keys ?? DEFAULT_BINDINGS.keys,
+    gamepad: { ...DEFAULT_BINDINGS.gamepad, ...overrides.gamepad },
+    repeat: { ...DEFAULT_BINDINGS.repeat, ...overrides.repeat },
+  };
+}
@@ -0,0 +1,33 @@
+import React, { useCallback, useEffect, useMemo, useRef } from "react";
+import { DEFAULT_REPEAT, RepeatOptions } from "./bindings";
+import { HoldRepeater } from "./HoldRepeater";
+
+/**
+ * Pointer handlers that fire `action` on press and keep repeating (with
+ * acceleration) while the pointer stays down. Keyboard activation of a button
+ * arrives as a click with detail 0 and fires once, like a normal button.
+ * `stop` cancels a running repeat, e.g. when the button gets disabled mid-hold.
+ */
+export function useHoldRepeat(action: () => void, options: RepeatOptions = DEFAULT_REPEAT) {
+  const actionRef = useRef(action);
+  actionRef.current = action;
+  const repeater = useMemo(() => new HoldRepeater(options), [options]);
+
+  useEffect(() => () => repeater.stop(), [repeater]);
+
+  const stop = useCallback(() => repeater.stop(), [repeater]);
+  const handlers = {
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (e.button !== 0) return;
+      e.currentTarget.setPointerCapture?.(e.pointerId);
+      repeater.start(() => actionRef.current());
+    },
+    onPointerUp: stop,
+    onPointerCancel: stop,
+    onLostPointerCapture: stop,
+    onClick: (e: React.MouseEvent<HTMLElement>) => {
+      if (e.detail === 0) actionRef.current();
+    },
+  };
+  return { handlers, stop };
+}
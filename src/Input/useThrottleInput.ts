@@ -0,0 +1,28 @@
+import { useEffect, useRef } from "react";
+import { MAX_POWER } from "../Store/DashboardStore";
+import { DEFAULT_BINDINGS, InputBindings } from "./bindings";
+import { InputController, ThrottleTarget } from "./InputController";
+
+/**
+ * Attaches keyboard + gamepad throttle input to `target` for the lifetime of the
+ * calling component. `enabled` is read on every input, so it can follow the store. The
+ * gamepad trigger spans the target's own power scale (MAX_POWER if it has none).
+ */
+export function useThrottleInput(
+  target: ThrottleTarget,
+  enabled: boolean,
+  bindings: InputBindings = DEFAULT_BINDINGS
+) {
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  useEffect(() => {
+    const controller = new InputController(target, {
+      maxPower: target.maxPower ?? MAX_POWER,
+      bindings,
+      isEnabled: () => enabledRef.current,
+    });
+    controller.attach();
+    return () => controller.dispose();
+  }, [target, bindings]);
+}
@@ -0,0 +1,54 @@
+import { DashboardStore } from "../Store/DashboardStore";
+
+/** Pseudo field that binds the store object itself. */
+export const WHOLE_STORE = "$store";
+
+/**
+ * Store fields a layout may bind to. Kept explicit so a layout can't reach
+ * into actions or internals, and so validation can name the alternatives.
+ */
+export const BINDABLE_FIELDS = [
+  "power",
+  "maxPower",
+  "powerPercent",
+  "throttle",
+  "driveThrottle",
+  "speed",
+  "distance",
+  "displaySpeed",
+  "displayDistance",
+  "displayOdometer",
+  "displayMaxSpeed",
+  "displayRedline",
+  "rpm",
+  "maxRpm",
+  "redlineRpm",
+  "gear",
+  "transmission",
+  "speedControlMode",
+  "displaySpeedTarget",
+  "activeWarnings",
+  "overspeed",
+  "fuelLevel",
+  "fuelLowLevel",
+  "fuelLow",
+  "fuelEmpty",
+  "fuelRate",
+  "speedUnit",
+  "distanceUnit",
+  "units",
+  "inputSource",
+  "simTime",
+] as const satisfies readonly (keyof DashboardStore)[];
+
+export type BindableField = (typeof BINDABLE_FIELDS)[number];
+
+export function isBindableField(v: string): v is BindableField {
+  return (BINDABLE_FIELDS as readonly string[]).includes(v);
+}
+
+/** Reads a validated binding source from the store. */
+export function readBinding(store: DashboardStore, field: string): unknown {
+  if (field === WHOLE_STORE) return store;
+  return isBindableField(field) ? store[field] : undefined;
+}
@@ -0,0 +1,18 @@
+import { DashboardLayout } from "../types";
+import { validateLayout } from "../validateLayout";
+import classic from "./classic.json";
+import compact from "./compact.json";
+import comparison from "./comparison.json";
+
+/**
+ * Built-in layouts, validated at startup so a broken document fails loudly
+ * instead of rendering half a dashboard. Add new layouts here.
+ */
+export const LAYOUTS: Record<string, DashboardLayout> = Object.fromEntries(
+  [classic, compact, comparison].map((json) => {
+    const layout = validateLayout(json);
+    return [layout.name, layout];
+  })
+);
+
+export const DEFAULT_LAYOUT = "classic";
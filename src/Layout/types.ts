@@ -0,0 +1,47 @@
+/**
+ * Dashboard layout documents
+ * ------------------------------
+ * A layout is a JSON document describing which widgets make up the cluster,
+ * where they sit on a CSS grid, how they are configured and which store
+ * fields feed them. Layouts are validated with `validateLayout()` before use.
+ *
+ *   {
+ *     "version": 1,
+ *     "name": "classic",
+ *     "grid": { "columns": 3, "rows": 2 },
+ *     "widgets": [
+ *       {
+ *         "type": "engine-power",
+ *         "position": { "column": 3, "row": 1 },
+ *         "attributes": { "title": "Engine power" },
+ *         "bind": { "power": "power" }
+ *       }
+ *     ]
+ *   }
+ *
+ * - position: 1-based grid column/row, with optional columnSpan/rowSpan
+ * - attributes: static HTML attributes set on the widget element
+ * - bind: widget property → store field (see BINDABLE_FIELDS); the special
+ *   field "$store" hands over the whole store for widgets that subscribe themselves
+ */
+
+export interface GridPosition {
+  column: number;
+  row: number;
+  columnSpan?: number;
+  rowSpan?: number;
+}
+
+export interface WidgetConfig {
+  type: string;
+  position: GridPosition;
+  attributes?: Record<string, string | number | boolean>;
+  bind?: Record<string, string>;
+}
+
+export interface DashboardLayout {
+  version: 1;
+  name: string;
+  grid: { columns: number; rows: number; gap?: number };
+  widgets: WidgetConfig[];
+}
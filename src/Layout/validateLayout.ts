@@ -0,0 +1,148 @@
+/**
+ * validateLayout
+ * ------------------------------
+ * Turns untrusted JSON into a `DashboardLayout`, or throws a `LayoutError`
+ * listing every problem found (not just the first), each prefixed with the
+ * JSON path it refers to, e.g.
+ *
+ *   widgets[2].type: unknown widget "engine-rpm" (known: engine-speed, engine-power, …)
+ *   widgets[0].bind.speed: unknown store field "velocty" (bindable: power, powerPercent, …)
+ */
+
+import { BINDABLE_FIELDS, isBindableField, WHOLE_STORE } from "./bindings";
+import { DashboardLayout, GridPosition, WidgetConfig } from "./types";
+import { WIDGETS } from "./widgets";
+
+export class LayoutError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid dashboard layout:\n  ${issues.join("\n  ")}`);
+    this.name = "LayoutError";
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const isPositiveInt = (v: unknown): v is number => Number.isInteger(v) && (v as number) > 0;
+
+export function validateLayout(input: unknown): DashboardLayout {
+  const issues: string[] = [];
+  const fail = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  if (!isObject(input)) throw new LayoutError(["(root): expected an object"]);
+
+  if (input.version !== 1) fail("version", `unsupported version ${JSON.stringify(input.version)}`);
+  if (typeof input.name !== "string" || !input.name) fail("name", "expected a non-empty string");
+
+  const grid = input.grid;
+  let columns = 0;
+  let rows = 0;
+  if (!isObject(grid)) {
+    fail("grid", "expected { columns, rows }");
+  } else {
+    if (isPositiveInt(grid.columns)) columns = grid.columns;
+    else fail("grid.columns", "expected a positive integer");
+    if (isPositiveInt(grid.rows)) rows = grid.rows;
+    else fail("grid.rows", "expected a positive integer");
+    if (grid.gap !== undefined && !(typeof grid.gap === "number" && grid.gap >= 0)) {
+      fail("grid.gap", "expected a non-negative number");
+    }
+  }
+
+  if (!Array.isArray(input.widgets)) {
+    fail("widgets", "expected an array");
+  } else {
+    input.widgets.forEach((w, i) => validateWidget(w, `widgets[${i}]`, columns, rows, fail));
+  }
+
+  if (issues.length) throw new LayoutError(issues);
+  return input as unknown as DashboardLayout;
+}
+
+function validateWidget(
+  w: unknown,
+  path: string,
+  columns: number,
+  rows: number,
+  fail: (path: string, message: string) => void
+) {
+  if (!isObject(w)) {
+    fail(path, "expected an object");
+    return;
+  }
+  const widget = w as Partial<WidgetConfig>;
+
+  const def = typeof widget.type === "string" ? WIDGETS[widget.type] : undefined;
+  if (!def) {
+    fail(
+      `${path}.type`,
+      `unknown widget ${JSON.stringify(widget.type)} (known: ${Object.keys(WIDGETS).join(", ")})`
+    );
+  }
+
+  validatePosition(widget.position, `${path}.position`, columns, rows, fail);
+
+  if (widget.attributes !== undefined) {
+    if (!isObject(widget.attributes)) {
+      fail(`${path}.attributes`, "expected an object");
+    } else {
+      for (const [name, value] of Object.entries(widget.attributes)) {
+        if (!["string", "number", "boolean"].includes(typeof value)) {
+          fail(`${path}.attributes.${name}`, "expected a string, number or boolean");
+        }
+      }
+    }
+  }
+
+  if (widget.bind !== undefined) {
+    if (!isObject(widget.bind)) {
+      fail(`${path}.bind`, "expected an object");
+      return;
+    }
+    for (const [prop, field] of Object.entries(widget.bind)) {
+      if (def && !def.bindable.includes(prop)) {
+        const allowed = def.bindable.length ? def.bindable.join(", ") : "none";
+        fail(
+          `${path}.bind.${prop}`,
+          `<${widget.type}> has no bindable property "${prop}" (bindable: ${allowed})`
+        );
+      }
+      if (typeof field !== "string" || (field !== WHOLE_STORE && !isBindableField(field))) {
+        fail(
+          `${path}.bind.${prop}`,
+          `unknown store field ${JSON.stringify(field)} ` +
+            `(bindable: ${[...BINDABLE_FIELDS, WHOLE_STORE].join(", ")})`
+        );
+      }
+    }
+  }
+}
+
+function validatePosition(
+  p: unknown,
+  path: string,
+  columns: number,
+  rows: number,
+  fail: (path: string, message: string) => void
+) {
+  if (!isObject(p)) {
+    fail(path, "expected { column, row }");
+    return;
+  }
+  const pos = p as Partial<GridPosition>;
+  const check = (key: keyof GridPosition, start: unknown, span: unknown, limit: number) => {
+    if (!isPositiveInt(start)) {
+      fail(`${path}.${key}`, "expected a positive integer");
+      return;
+    }
+    if (span !== undefined && !isPositiveInt(span)) {
+      fail(`${path}.${key}Span`, "expected a positive integer");
+      return;
+    }
+    const end = start + ((span as number | undefined) ?? 1) - 1;
+    if (limit && end > limit)
+      fail(path, `${key} ${start}–${end} is outside the grid (${limit} ${key}s)`);
+  };
+  check("column", pos.column, pos.columnSpan, columns);
+  check("row", pos.row, pos.rowSpan, rows);
+}
@@ -0,0 +1,134 @@
+/**
+ * Widget registry
+ * ------------------------------
+ * Everything a layout document can place on the dashboard, by `type`.
+ *
+ * - tag: custom element rendered for the widget (web-component widgets)
+ * - component: React component rendered instead (React widgets)
+ * - bindable: element properties a layout may bind to store fields
+ * - connect(el, store): optional wiring beyond one-way bindings (events,
+ *   values that depend on the element's own state); returns a disposer
+ */
+
+import { autorun } from "mobx";
+import React from "react";
+import FuelStatus from "../Components/Fuel/FuelStatus";
+import GearIndicator from "../Components/Gear/GearIndicator";
+import PowerControls from "../Components/PowerControls";
+import SpeedControlPanel from "../Components/SpeedControl/SpeedControlPanel";
+import { DashboardStore } from "../Store/DashboardStore";
+import type { TrackerView, TripStats } from "../WebComponents/distance-tracker.element";
+import "../WebComponents/distance-tracker.element";
+import "../WebComponents/engine-power.element";
+import "../WebComponents/engine-rpm.element";
+import "../WebComponents/engine-speed.element";
+import "../WebComponents/fuel-gauge.element";
+import "../WebComponents/speed-history.element";
+import "../WebComponents/warning-lights.element";
+
+export interface WidgetDefinition {
+  tag?: string;
+  component?: React.ComponentType;
+  bindable: readonly string[];
+  connect?: (el: HTMLElement, store: DashboardStore) => () => void;
+}
+
+type DistanceTrackerEl = HTMLElement & {
+  view: TrackerView;
+  distance: number;
+  trip: TripStats | null;
+};
+
+/**
+ * The tracker cycles its own view on click; follow it so the distance (session,
+ * odometer or trip) and the trip figures match what it shows, and route its reset button.
+ * The session distance is whatever drives the store (simulation, replay, remote source or
+ * a shared link); the odometer and trips only count local driving.
+ */
+function connectDistanceTracker(el: HTMLElement, store: DashboardStore) {
+  const tracker = el as DistanceTrackerEl;
+  const sync = () => {
+    const tripId = tracker.view === "trip-a" ? "A" : tracker.view === "trip-b" ? "B" : null;
+    const trip = tripId ? store.tripStats(tripId) : null;
+    tracker.distance = trip
+      ? trip.distance
+      : tracker.view === "odometer"
+        ? store.displayOdometer
+        : store.displayDistance;
+    tracker.trip = trip;
+  };
+  const onReset = (e: Event) => store.resetTrip((e as CustomEvent).detail.trip);
+
+  const dispose = autorun(sync);
+  tracker.addEventListener("view-change", sync);
+  tracker.addEventListener("trip-reset", onReset);
+  return () => {
+    dispose();
+    tracker.removeEventListener("view-change", sync);
+    tracker.removeEventListener("trip-reset", onReset);
+  };
+}
+
+/** Dragging, scrolling or keying the power bar proposes a power level for the store. */
+function connectEnginePower(el: HTMLElement, store: DashboardStore) {
+  const onInput = (e: HTMLElementEventMap["power-input"]) => store.setPower(e.detail.power);
+  el.addEventListener("power-input", onInput);
+  return () => el.removeEventListener("power-input", onInput);
+}
+
+/** Clicking a light acknowledges its warning. */
+function connectWarningLights(el: HTMLElement, store: DashboardStore) {
+  const onAcknowledge = (e: Event) => store.warnings.acknowledge((e as CustomEvent).detail.id);
+  el.addEventListener("warning-acknowledge", onAcknowledge);
+  return () => el.removeEventListener("warning-acknowledge", onAcknowledge);
+}
+
+export const WIDGETS: Record<string, WidgetDefinition> = {
+  "engine-speed": {
+    tag: "engine-speed",
+    bindable: ["store", "speed", "min", "max", "redline", "unit", "alert", "marker"],
+  },
+  "engine-rpm": {
+    tag: "engine-rpm",
+    bindable: ["store", "rpm", "min", "max", "redline", "unit", "alert", "marker"],
+  },
+  "engine-power": {
+    tag: "engine-power",
+    bindable: ["power", "max"],
+    connect: connectEnginePower,
+  },
+  "warning-lights": {
+    tag: "warning-lights",
+    bindable: ["warnings"],
+    connect: connectWarningLights,
+  },
+  "fuel-gauge": {
+    tag: "fuel-gauge",
+    bindable: ["level", "lowThreshold"],
+  },
+  "speed-history": {
+    tag: "speed-history",
+    bindable: ["store", "speed", "power", "time", "window", "speedMax", "powerMax", "unit"],
+  },
+  "distance-tracker": {
+    tag: "distance-tracker",
+    bindable: ["speed", "speedUnit", "distanceUnit", "speedMax"],
+    connect: connectDistanceTracker,
+  },
+  "fuel-status": {
+    component: FuelStatus,
+    bindable: [],
+  },
+  "gear-indicator": {
+    component: GearIndicator,
+    bindable: [],
+  },
+  "speed-control": {
+    component: SpeedControlPanel,
+    bindable: [],
+  },
+  "power-controls": {
+    component: PowerControls,
+    bindable: [],
+  },
+};
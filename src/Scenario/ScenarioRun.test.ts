@@ -0,0 +1,30 @@
+import { DashboardStore } from "../Store/DashboardStore";
+import { runScenario, ScenarioReport, ScenarioRun } from "./ScenarioRun";
+import { SCENARIOS } from "./scenarios";
+
+const headless = () => new DashboardStore({ odometerKey: null });
+
+describe.each(["urban", "highway"])("the %s drive cycle", (name) => {
+  const scenario = SCENARIOS[name];
+  let report: ScenarioReport;
+  beforeAll(() => {
+    report = runScenario(scenario, { store: headless() });
+  });
+
+  test("meets every pass criterion", () => {
+    const failed = report.assertions.filter((a) => a.status !== "passed");
+    expect(failed).toEqual([]);
+    expect(report.assertions.length).toBeGreaterThan(0);
+    expect(report.passed).toBe(true);
+  });
+
+  test("runs the whole timeline and reports rounded totals", () => {
+    const timeline = new ScenarioRun(scenario, headless()).duration;
+    expect(report.duration).toBeCloseTo(timeline, 1);
+    expect(report.distance).toBeGreaterThan(0);
+    expect(report.fuelUsed).toBeGreaterThan(0);
+    for (const total of [report.duration, report.distance, report.fuelUsed]) {
+      expect(total).toBe(Number(total.toFixed(3)));
+    }
+  });
+});
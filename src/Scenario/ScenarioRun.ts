@@ -0,0 +1,286 @@
+/**
+ * ScenarioRun
+ * ------------------------------
+ * Plays a `Scenario` (see types.ts) against a `DashboardStore` as its step driver: before
+ * every simulation step it sets the inputs the timeline calls for, after it it checks the
+ * assertions being watched and moves the timeline on.
+ *
+ * - start(): applies the setup, brings the vehicle to rest and attaches to the store;
+ *   from then on every store.advance() is a scenario step, so a live run follows the
+ *   dashboard clock (pause, time scale) like the rest of the simulation
+ * - stop(): detaches early; assertions still open are reported as failed
+ * - report: pass/fail per assertion (with the time it settled and why), the distance
+ *   covered and fuel used, and whether everything passed
+ *
+ * runScenario(scenario) does a whole run headlessly: a fresh store (unless one is given)
+ * stepped in a plain loop, no clock, no DOM — fit for Jest.
+ */
+
+import { makeAutoObservable } from "mobx";
+import { DashboardStore, MAX_POWER, StepDriver } from "../Store/DashboardStore";
+import { holdThrottle } from "../Store/SpeedControl";
+import { ExpectStep, InputStep, isExpectStep, Scenario, ScenarioField } from "./types";
+
+export type AssertionStatus = "pending" | "passed" | "failed";
+
+export interface AssertionResult {
+  label: string;
+  status: AssertionStatus;
+  /** Scenario time (s) when it settled */
+  at?: number;
+  detail?: string;
+}
+
+export interface ScenarioReport {
+  name: string;
+  passed: boolean;
+  /** Scenario time run, in s */
+  duration: number;
+  /** Distance covered, in km */
+  distance: number;
+  /** Fuel used, in L */
+  fuelUsed: number;
+  assertions: AssertionResult[];
+}
+
+interface Watch {
+  step: ExpectStep;
+  result: AssertionResult;
+  startedAt: number;
+  /** Highest (reaches) or lowest (fallsTo) value seen */
+  best: number;
+}
+
+type Control =
+  { kind: "power" } | { kind: "ramp"; from: number } | { kind: "speed"; target: number };
+
+const fmt = (n: number) => String(Number(n.toFixed(2)));
+
+export function describeExpect(step: ExpectStep) {
+  if (step.label) return step.label;
+  if ("reaches" in step) return `${step.expect} reaches ${step.reaches} within ${step.within} s`;
+  if ("fallsTo" in step) return `${step.expect} falls to ${step.fallsTo} within ${step.within} s`;
+  if ("between" in step) {
+    return `${step.expect} stays in ${step.between[0]}–${step.between[1]} for ${step.for} s`;
+  }
+  const bounds = [
+    step.atLeast !== undefined ? `≥ ${step.atLeast}` : null,
+    step.atMost !== undefined ? `≤ ${step.atMost}` : null,
+  ];
+  return `${step.expect} ${bounds.filter(Boolean).join(" and ")}`;
+}
+
+export class ScenarioRun implements StepDriver {
+  /** Scenario time in ms */
+  time = 0;
+  stepIndex = 0;
+  done = false;
+  assertions: AssertionResult[] = [];
+
+  private stepElapsed = 0;
+  private control: Control = { kind: "power" };
+  private watches: Watch[] = [];
+  private startTravelled = 0;
+  private startFuel = 0;
+
+  constructor(
+    readonly scenario: Scenario,
+    private store: DashboardStore
+  ) {
+    makeAutoObservable<ScenarioRun, "store" | "watches">(this, {
+      scenario: false,
+      store: false,
+      watches: false,
+    });
+  }
+
+  get duration() {
+    return this.scenario.steps.reduce((sum, step) => sum + stepDuration(step), 0);
+  }
+
+  get report(): ScenarioReport {
+    return {
+      name: this.scenario.name,
+      passed: this.done && this.assertions.every((a) => a.status === "passed"),
+      duration: Number((this.time / 1000).toFixed(3)),
+      distance: Number(((this.store.travelled - this.startTravelled) / 1000).toFixed(3)),
+      fuelUsed: Number(this.fieldValue("fuelUsed").toFixed(3)),
+      assertions: this.assertions.map((a) => ({ ...a })),
+    };
+  }
+
+  start() {
+    const { setup } = this.scenario;
+    if (setup?.transmission) this.store.setTransmission(setup.transmission);
+    if (setup?.fuel !== undefined) this.store.setFuel(setup.fuel);
+    this.store.resetMotion();
+    this.startTravelled = this.store.travelled;
+    this.startFuel = this.store.fuel;
+    this.store.setDriver(this);
+    this.enterSteps();
+  }
+
+  stop() {
+    if (this.done) return;
+    this.finish("run stopped");
+  }
+
+  beforeStep(dtMs: number) {
+    const step = this.scenario.steps[this.stepIndex] as InputStep | undefined;
+    const control = this.control;
+    if (control.kind === "ramp" && step && "ramp" in step) {
+      const t = step.over > 0 ? Math.min(1, (this.stepElapsed + dtMs) / (step.over * 1000)) : 1;
+      this.store.setPower(control.from + (this.level(step.ramp) - control.from) * t);
+    } else if (control.kind === "speed") {
+      const throttle = holdThrottle(control.target / 3.6, this.store.velocity, this.store.vehicle);
+      this.store.setPower(throttle * this.store.maxPower);
+    }
+  }
+
+  afterStep(dtMs: number) {
+    if (this.done) return;
+    this.time += dtMs;
+    this.stepElapsed += dtMs;
+    this.checkWatches();
+
+    const step = this.scenario.steps[this.stepIndex];
+    if (step && this.stepElapsed >= stepDuration(step) * 1000 - 1e-6) {
+      this.stepIndex++;
+      this.enterSteps();
+    }
+  }
+
+  /** Runs the steps that take no time and starts the next timed one (or finishes). */
+  private enterSteps() {
+    const steps = this.scenario.steps;
+    while (this.stepIndex < steps.length) {
+      const step = steps[this.stepIndex];
+      this.stepElapsed = 0;
+      if (isExpectStep(step)) {
+        this.watch(step);
+      } else {
+        this.applyInput(step);
+        if (stepDuration(step) > 0) return;
+      }
+      this.stepIndex++;
+    }
+    this.finish("scenario ended");
+  }
+
+  private applyInput(step: InputStep) {
+    if ("power" in step) {
+      this.control = { kind: "power" };
+      this.store.setPower(this.level(step.power));
+    } else if ("ramp" in step) {
+      this.control = { kind: "ramp", from: this.store.power };
+      if (step.over <= 0) this.store.setPower(this.level(step.ramp));
+    } else if ("speed" in step) {
+      this.control = { kind: "speed", target: step.speed };
+    }
+  }
+
+  /** Maps a scenario power level (default scale) onto the store's own power scale. */
+  private level(power: number) {
+    return (power / MAX_POWER) * this.store.maxPower;
+  }
+
+  private watch(step: ExpectStep) {
+    this.assertions.push({ label: describeExpect(step), status: "pending" });
+    // The array holds an observable copy; settle that one.
+    const result = this.assertions[this.assertions.length - 1];
+    const value = this.fieldValue(step.expect);
+    if ("atLeast" in step || "atMost" in step) {
+      const ok =
+        (step.atLeast === undefined || value >= step.atLeast) &&
+        (step.atMost === undefined || value <= step.atMost);
+      this.settle(result, ok, `${step.expect} was ${fmt(value)}`);
+      return;
+    }
+    this.watches.push({ step, result, startedAt: this.time, best: value });
+    this.checkWatches();
+  }
+
+  private checkWatches() {
+    this.watches = this.watches.filter((w) => {
+      const { step } = w;
+      const value = this.fieldValue(step.expect);
+      const elapsed = (this.time - w.startedAt) / 1000;
+      if ("reaches" in step || "fallsTo" in step) {
+        const rising = "reaches" in step;
+        const goal = "reaches" in step ? step.reaches : step.fallsTo;
+        w.best = rising ? Math.max(w.best, value) : Math.min(w.best, value);
+        if (rising ? value >= goal : value <= goal) {
+          this.settle(w.result, true, `after ${fmt(elapsed)} s`);
+        } else if (elapsed > step.within + 1e-6) {
+          this.settle(w.result, false, `${rising ? "peaked at" : "bottomed at"} ${fmt(w.best)}`);
+        }
+      } else if ("between" in step) {
+        const [lo, hi] = step.between;
+        if (value < lo || value > hi) {
+          this.settle(w.result, false, `${step.expect} was ${fmt(value)} after ${fmt(elapsed)} s`);
+        } else if (elapsed >= step.for - 1e-6) {
+          this.settle(w.result, true);
+        }
+      }
+      return w.result.status === "pending";
+    });
+  }
+
+  private settle(result: AssertionResult, ok: boolean, detail?: string) {
+    result.status = ok ? "passed" : "failed";
+    result.at = Number((this.time / 1000).toFixed(3));
+    result.detail = detail;
+  }
+
+  private finish(reason: string) {
+    for (const w of this.watches) this.settle(w.result, false, `still open when the ${reason}`);
+    this.watches = [];
+    this.done = true;
+    if (this.store.driver === this) this.store.setDriver(null);
+  }
+
+  private fieldValue(field: ScenarioField) {
+    const store = this.store;
+    switch (field) {
+      case "speed":
+        return store.speed;
+      case "distance":
+        return (store.travelled - this.startTravelled) / 1000;
+      case "power":
+        return store.throttle * MAX_POWER;
+      case "rpm":
+        return store.rpm;
+      case "gear":
+        return store.gear;
+      case "fuelUsed":
+        return this.startFuel - store.fuel;
+    }
+  }
+}
+
+function stepDuration(step: Scenario["steps"][number]) {
+  if (isExpectStep(step)) return 0;
+  if ("wait" in step) return step.wait;
+  if ("ramp" in step) return step.over;
+  return step.for ?? 0;
+}
+
+export interface RunOptions {
+  /** Store to run against (default: a fresh DashboardStore) */
+  store?: DashboardStore;
+  /** Simulation step in ms (default: the store clock's step) */
+  stepMs?: number;
+}
+
+/** Runs a whole scenario synchronously and returns its report. */
+export function runScenario(scenario: Scenario, options: RunOptions = {}): ScenarioReport {
+  const store = options.store ?? new DashboardStore();
+  const stepMs = options.stepMs ?? store.clock.stepMs;
+  const run = new ScenarioRun(scenario, store);
+  run.start();
+  // The timeline is finite; the margin only guards against rounding at the very end.
+  const maxSteps = Math.ceil((run.duration * 1000) / stepMs) + 2;
+  for (let i = 0; i < maxSteps && !run.done; i++) store.advance(stepMs);
+  run.stop();
+  return run.report;
+}
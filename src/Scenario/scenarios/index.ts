@@ -0,0 +1,14 @@
+import { Scenario } from "../types";
+import { validateScenario } from "../validateScenario";
+import highway from "./highway.json";
+import urban from "./urban.json";
+
+/**
+ * Built-in drive cycles, validated at startup like the layouts. Add new scenarios here.
+ */
+export const SCENARIOS: Record<string, Scenario> = Object.fromEntries(
+  [urban, highway].map((json) => {
+    const scenario = validateScenario(json);
+    return [scenario.name, scenario];
+  })
+);
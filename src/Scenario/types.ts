@@ -0,0 +1,86 @@
+/**
+ * Drive-cycle scenarios
+ * ------------------------------
+ * A scenario is a JSON document describing a drive: a timeline of driver inputs and
+ * assertions about how the vehicle responds. Scenarios are validated with
+ * `validateScenario()` and run against a `DashboardStore` by `ScenarioRun` (live, on the
+ * store's clock) or `runScenario()` (headless, e.g. in Jest).
+ *
+ *   {
+ *     "version": 1,
+ *     "name": "highway",
+ *     "steps": [
+ *       { "expect": "speed", "reaches": 100, "within": 20 },
+ *       { "power": 6, "for": 20 },
+ *       { "speed": 100, "for": 30 },
+ *       { "expect": "distance", "atLeast": 1.2 }
+ *     ]
+ *   }
+ *
+ * Steps run in order. Input steps take time on the timeline:
+ * - { "power": n, "for"?: s }: set power (0–MAX_POWER), then hold it for s seconds
+ * - { "ramp": n, "over": s }: move power linearly to n over s seconds
+ * - { "speed": kmh, "for": s }: drive towards a target speed for s seconds, power adjusted
+ *   every step the way cruise control does it (full throttle well below the target, coasting
+ *   above it); stays in effect until the next power, ramp or speed step
+ * - { "wait": s }: keep the current inputs for s seconds
+ *
+ * Assertion steps take no time; they start watching when reached and settle later:
+ * - { "expect": field, "reaches": n, "within": s }: field ≥ n at some point within s seconds
+ * - { "expect": field, "fallsTo": n, "within": s }: field ≤ n at some point within s seconds
+ * - { "expect": field, "between": [lo, hi], "for": s }: field stays in [lo, hi] for s seconds
+ * - { "expect": field, "atLeast"?: n, "atMost"?: n }: checked once, right now
+ * Every assertion may carry a "label" for the report.
+ *
+ * Fields are metric whatever the dashboard shows: speed (km/h), distance (km, since the
+ * start of the run), power, rpm, gear, fuelUsed (L since the start of the run).
+ *
+ * Power levels (inputs and the power field) are on the default 0–MAX_POWER scale, so a
+ * store with a different maxPower is driven with the same throttle.
+ *
+ * Optional "setup": { "transmission": "automatic" | "manual", "fuel": litres in the tank }.
+ * Every run starts from rest with power 0 and speed control off.
+ */
+
+import { Transmission } from "../Store/Gearbox";
+
+export const SCENARIO_FIELDS = ["speed", "distance", "power", "rpm", "gear", "fuelUsed"] as const;
+export type ScenarioField = (typeof SCENARIO_FIELDS)[number];
+
+export type InputStep =
+  | { power: number; for?: number }
+  | { ramp: number; over: number }
+  | { speed: number; for: number }
+  | { wait: number };
+
+interface ExpectBase {
+  expect: ScenarioField;
+  label?: string;
+}
+
+export type ExpectStep = ExpectBase &
+  (
+    | { reaches: number; within: number }
+    | { fallsTo: number; within: number }
+    | { between: [number, number]; for: number }
+    | { atLeast?: number; atMost?: number }
+  );
+
+export type ScenarioStep = InputStep | ExpectStep;
+
+export interface ScenarioSetup {
+  transmission?: Transmission;
+  fuel?: number;
+}
+
+export interface Scenario {
+  version: 1;
+  name: string;
+  description?: string;
+  setup?: ScenarioSetup;
+  steps: ScenarioStep[];
+}
+
+export function isExpectStep(step: ScenarioStep): step is ExpectStep {
+  return "expect" in step;
+}
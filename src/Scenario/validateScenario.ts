@@ -0,0 +1,150 @@
+/**
+ * validateScenario
+ * ------------------------------
+ * Turns untrusted JSON into a `Scenario`, or throws a `ScenarioError` listing every
+ * problem found, each prefixed with its JSON path (same style as validateLayout), e.g.
+ *
+ *   steps[3]: expected one of power, ramp, speed, wait or expect
+ *   steps[5].within: expected a non-negative number
+ */
+
+import { MAX_POWER } from "../Store/DashboardStore";
+import { Scenario, SCENARIO_FIELDS } from "./types";
+
+export class ScenarioError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid scenario:\n  ${issues.join("\n  ")}`);
+    this.name = "ScenarioError";
+  }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+const INPUT_KEYS = ["power", "ramp", "speed", "wait"] as const;
+
+export function validateScenario(input: unknown): Scenario {
+  const issues: string[] = [];
+  const fail = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  if (!isObject(input)) throw new ScenarioError(["(root): expected an object"]);
+
+  if (input.version !== 1) fail("version", `unsupported version ${JSON.stringify(input.version)}`);
+  if (typeof input.name !== "string" || !input.name) fail("name", "expected a non-empty string");
+  if (input.description !== undefined && typeof input.description !== "string") {
+    fail("description", "expected a string");
+  }
+
+  if (input.setup !== undefined) {
+    const setup = input.setup;
+    if (!isObject(setup)) {
+      fail("setup", "expected an object");
+    } else {
+      if (
+        setup.transmission !== undefined &&
+        !["automatic", "manual"].includes(String(setup.transmission))
+      ) {
+        fail("setup.transmission", 'expected "automatic" or "manual"');
+      }
+      if (setup.fuel !== undefined && !(isNumber(setup.fuel) && setup.fuel >= 0)) {
+        fail("setup.fuel", "expected a non-negative number of litres");
+      }
+    }
+  }
+
+  if (!Array.isArray(input.steps) || input.steps.length === 0) {
+    fail("steps", "expected a non-empty array");
+  } else {
+    input.steps.forEach((step, i) => validateStep(step, `steps[${i}]`, fail));
+  }
+
+  if (issues.length) throw new ScenarioError(issues);
+  return input as unknown as Scenario;
+}
+
+function validateStep(s: unknown, path: string, fail: (path: string, message: string) => void) {
+  if (!isObject(s)) {
+    fail(path, "expected an object");
+    return;
+  }
+  const duration = (key: string, required: boolean) => {
+    if (s[key] === undefined && !required) return;
+    if (!(isNumber(s[key]) && (s[key] as number) >= 0)) {
+      fail(`${path}.${key}`, "expected a non-negative number of seconds");
+    }
+  };
+  const power = (key: string) => {
+    if (!(isNumber(s[key]) && (s[key] as number) >= 0 && (s[key] as number) <= MAX_POWER)) {
+      fail(`${path}.${key}`, `expected a number from 0 to ${MAX_POWER}`);
+    }
+  };
+
+  if ("expect" in s) {
+    validateExpect(s, path, fail, duration);
+    return;
+  }
+
+  const kinds = INPUT_KEYS.filter((key) => key in s);
+  if (kinds.length !== 1) {
+    fail(path, "expected one of power, ramp, speed, wait or expect");
+    return;
+  }
+  switch (kinds[0]) {
+    case "power":
+      power("power");
+      duration("for", false);
+      break;
+    case "ramp":
+      power("ramp");
+      duration("over", true);
+      break;
+    case "speed":
+      if (!(isNumber(s.speed) && s.speed >= 0)) fail(`${path}.speed`, "expected km/h ≥ 0");
+      duration("for", true);
+      break;
+    case "wait":
+      duration("wait", true);
+      break;
+  }
+}
+
+function validateExpect(
+  s: Record<string, unknown>,
+  path: string,
+  fail: (path: string, message: string) => void,
+  duration: (key: string, required: boolean) => void
+) {
+  if (!(SCENARIO_FIELDS as readonly unknown[]).includes(s.expect)) {
+    fail(
+      `${path}.expect`,
+      `unknown field ${JSON.stringify(s.expect)} (known: ${SCENARIO_FIELDS.join(", ")})`
+    );
+  }
+  if (s.label !== undefined && typeof s.label !== "string")
+    fail(`${path}.label`, "expected a string");
+
+  if ("reaches" in s || "fallsTo" in s) {
+    const key = "reaches" in s ? "reaches" : "fallsTo";
+    if (!isNumber(s[key])) fail(`${path}.${key}`, "expected a number");
+    duration("within", true);
+  } else if ("between" in s) {
+    const range = s.between;
+    if (
+      !Array.isArray(range) ||
+      range.length !== 2 ||
+      !range.every(isNumber) ||
+      range[0] > range[1]
+    ) {
+      fail(`${path}.between`, "expected [low, high]");
+    }
+    duration("for", true);
+  } else if ("atLeast" in s || "atMost" in s) {
+    if (s.atLeast !== undefined && !isNumber(s.atLeast))
+      fail(`${path}.atLeast`, "expected a number");
+    if (s.atMost !== undefined && !isNumber(s.atMost)) fail(`${path}.atMost`, "expected a number");
+  } else {
+    fail(path, "expected reaches, fallsTo, between, atLeast or atMost");
+  }
+}
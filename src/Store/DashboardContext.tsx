@@ -9,9 +9,12 @@
  *   • A React context holding a `DashboardStore` or `null`.
  *
  * - StoreProvider:
- *   • Creates a single `DashboardStore` instance (memoized so it’s not recreated
- *     on every render).
- *   • Provides the store to all descendant components via Context.
+ *   • Provides the `store` it is given, or creates its own `DashboardStore` from `config`
+ *     (once: later config changes are ignored, so inline objects are fine).
+ *   • Restores the persisted odometer/trip meters and keeps saving them while mounted,
+ *     under the store's odometerKey (nothing is persisted when it is null).
+ *   • Provides the store to all descendant components via Context; providers can be
+ *     nested or placed side by side for several independent dashboards.
  *
  * - useStore():
  *   • A custom hook to easily access the `DashboardStore` from React components.
@@ -22,18 +25,37 @@
  *     <Dashboard />
  *   </StoreProvider>
  *
+ *   <StoreProvider config={{ name: "tuned", maxPower: 8 }}>…</StoreProvider>
+ *   <StoreProvider store={existingStore}>…</StoreProvider>
+ *
  *   Inside Dashboard:
  *   const store = useStore();
  *   store.inc(); store.dec(); etc.
  */
 
-import React, { createContext, useContext } from "react";
-import { DashboardStore } from "./DashboardStore";
+import React, { createContext, useContext, useEffect, useRef } from "react";
+import { DashboardConfig, DashboardStore } from "./DashboardStore";
+import { persistOdometer } from "./odometerStorage";
 
 export const StoreContext = createContext<DashboardStore | null>(null);
 
-export function StoreProvider({ children }: { children: React.ReactNode }) {
-  const store = React.useMemo(() => new DashboardStore(), []);
+export interface StoreProviderProps {
+  /** Store to provide; when left out the provider creates one */
+  store?: DashboardStore;
+  /** Setup for the store the provider creates */
+  config?: DashboardConfig;
+  children: React.ReactNode;
+}
+
+export function StoreProvider({ store: injected, config, children }: StoreProviderProps) {
+  const own = useRef<DashboardStore | null>(null);
+  if (!injected && !own.current) own.current = new DashboardStore(config);
+  const store = injected ?? (own.current as DashboardStore);
+
+  useEffect(() => {
+    const key = store.odometerKey;
+    return key == null ? undefined : persistOdometer(store, window.localStorage, key);
+  }, [store]);
   return <StoreContext.Provider value={store}>{children}</StoreContext.Provider>;
 }
 
@@ -3,20 +3,113 @@
  * ------------------------------
  * This MobX store models a simple vehicle dashboard simulation.
  *
+ * - Setup (constructor(config), see DashboardConfig; fixed for the store's lifetime):
+ *   • name: label for the vehicle, e.g. in the comparison view
+ *   • maxPower: top of the power scale (default MAX_POWER)
+ *   • maxSpeed / redlineSpeed: speed gauge full scale and red zone start in km/h (default
+ *     MAX_SPEED / REDLINE_SPEED)
+ *   • odometerKey: localStorage key the odometer is persisted under, or null for none;
+ *     named stores get their own key so several dashboards don't overwrite each other
+ *   • vehicle, gearbox, tank and layout start from the config when it has them; the
+ *     overspeed warning fires above redlineSpeed
+ *
  * - State:
- *   • power: current engine power level (0–MAX_POWER)
- *   • speed: derived from power as a percentage of MAX_SPEED
- *   • distance: total kilometers traveled, updated over time
+ *   • power: current engine power level (0–maxPower), used as throttle input
+ *   • velocity: vehicle velocity in m/s, integrated by tick()
+ *   • travelled: metres traveled this session, integrated by tick() (or set by applySample)
+ *   • odometer: lifetime metres driven in the local simulation (persisted, see odometerStorage)
+ *   • tripA / tripB: resettable trip meters (distance, driving time, average/max speed)
+ *   • vehicle: physical parameters of the simulated vehicle (see VehicleModel)
+ *   • gearbox / gear / transmission: drivetrain setup, selected gear and shift mode (see Gearbox)
+ *   • tank / fuel: fuel system setup and litres left (see FuelModel); fuelUsed and
+ *     fuelDistance count litres and metres since the last refuel, for the average
+ *   • speedControl: cruise control or speed limiter setup (mode, target in m/s, engaged),
+ *     or null (see SpeedControl)
+ *   • warnings: rule-based warnings and their history (see src/Warnings); evaluated by
+ *     calling warnings.update(dtMs), which advance() does every step
+ *   • clock: fixed-step simulation clock calling advance() (see SimulationClock); pause,
+ *     time scale and catch-up live there, the dashboard starts it while mounted
+ *   • driver: an automated driver (e.g. a scenario run, see src/Scenario) that sets the
+ *     inputs before every step and checks the result after it, or null
+ *   • units: display unit system (metric / imperial); integration always stays in SI
+ *   • layout: name of the dashboard layout document to render (see src/Layout)
+ *   • theme: "auto" or a theme name (see src/Theme); colorScheme is the OS preference
+ *     "auto" follows, userThemes the themes added at runtime
+ *   • inputSource: what currently drives the store — the local simulation loop,
+ *     a telemetry replay, or a remote telemetry source; the latter two feed
+ *     samples through applySample()
  *
  * - Behavior:
- *   • normalizePower(n): clamps engine power within [0, MAX_POWER] and rounds to 1 decimal
- *   • syncSpeed(): recalculates speed from the current power
- *   • inc(step): increases power by step (default 0.1) and updates speed
- *   • dec(step): decreases power by step (default 0.1) and updates speed
- *   • setPower(n): directly sets power, normalized, and syncs speed
- *   • tick(dtMs): simulates travel by adding distance = speed × time
+ *   • normalizePower(n): clamps engine power within [0, maxPower] and rounds to 1 decimal
+ *     (clampPower)
+ *   • inc(step): increases power by step (default 0.1)
+ *   • dec(step): decreases power by step (default 0.1); cancels an engaged cruise control
+ *     first, like touching the brake
+ *   • setPower(n): directly sets power, normalized
+ *   • setVehicle(params): replaces some or all vehicle parameters
+ *   • setGearbox(params): replaces some or all gearbox parameters
+ *   • setTransmission(mode): automatic (shifts itself) or manual
+ *   • setTank(params): replaces some or all fuel system parameters
+ *   • refuel(litres): adds fuel (default: fills the tank) and restarts the average
+ *   • setFuel(litres): sets the tank content (clamped to capacity) and restarts the average
+ *   • shiftUp() / shiftDown(): manual shifts; in automatic they switch to manual first.
+ *     A downshift that would over-rev the engine is refused.
+ *   • setCruise(target?) / setLimiter(limit?): engage cruise control at the target or the
+ *     speed limiter at the limit (display units; default: the current speed). Refused
+ *     below CRUISE_MIN_SPEED / LIMITER_MIN_SPEED.
+ *   • cancelSpeedControl() / resumeSpeedControl(): disengage keeping the target, engage it
+ *     again (cruise only resumes above CRUISE_MIN_SPEED)
+ *   • setUnits(units): switches the display unit system
+ *   • setLayout(name): selects another dashboard layout
+ *   • setTheme(name): selects "auto" or a known theme; unknown names are ignored
+ *   • addTheme(name, tokens, base): registers a user theme overriding some tokens of a preset
+ *   • setColorScheme(scheme): OS light/dark preference, fed by useThemeSync
+ *   • resetTrip(id): zeroes trip meter A or B
+ *   • restoreOdometer(data): loads a persisted odometer and trip meters
+ *   • setDistance(km): sets the session distance (not the odometer), e.g. from a shared
+ *     link (see urlState); negative values count as 0, non-numbers are ignored
+ *   • tick(dtMs): integrates the longitudinal model (traction, drag, rolling
+ *     resistance) over dtMs, so speed builds up and coasts down over time; the rev
+ *     limiter cuts power above redline and the automatic box shifts afterwards.
+ *     Drives with driveThrottle; while cruise control is engaged, power follows it.
+ *     Burns fuel for the step; with an empty tank there is no drive and the vehicle
+ *     coasts to a stop. Replays and remote sources don't consume fuel.
+ *   • advance(dtMs): one clock step — the driver's beforeStep, tick(dtMs) while the local
+ *     simulation drives the store, the warning rules (whatever drives it), the driver's
+ *     afterStep
+ *   • setDriver(driver): attaches or (null) detaches an automated driver
+ *   • resetMotion(): brings the vehicle to rest in first gear, power 0, speed control off
+ *   • setInputSource(source): switches who drives the store
+ *   • applySample(sample): overwrites power/speed/distance with an externally produced snapshot
  *
  * - Computed values:
+ *   • speed: velocity in km/h
+ *   • distance: travelled in km
+ *   • throttle: power as a 0–1 fraction of maxPower
+ *   • driveThrottle: the throttle tick() applies — cruise control's, or the driver's capped
+ *     by the speed limiter; 0 above redline or with an empty tank
+ *   • speedControlMode: "cruise", "limiter" or "off" (nothing engaged)
+ *   • displaySpeedTarget: engaged target/limit in the selected units, null when off
+ *   • rpm: engine speed derived from velocity and the selected gear
+ *   • redlineRpm / maxRpm: tachometer red zone start and full scale, from the gearbox
+ *   • themeNames: "auto", the presets and the user themes
+ *   • palette: the resolved theme ("auto" picks day or night from colorScheme)
+ *   • activeWarnings: active warnings, most severe first
+ *   • overspeed: whether the overspeed warning is up
+ *   • fuelLevel / fuelLow / fuelEmpty / fuelLowLevel: tank level as a 0–1 fraction and its states
+ *   • fuelRate: current burn in L/h (0 when empty)
+ *   • instantConsumption / averageConsumption: L/100 km now and since the last refuel
+ *     (null while stopped or too early to tell)
+ *   • range: metres left at the average (or, before there is one, instant) consumption
+ *   • displayInstantConsumption / displayAverageConsumption / displayRange /
+ *     consumptionUnit: the same in the selected units (L/100 km or mpg, km or mi)
+ *   • displaySpeed / displayDistance: speed and distance in the selected units
+ *   • simTime: simulated milliseconds so far (clock.simTime), for widgets that sample over time
+ *   • speedUnit / distanceUnit: labels for the selected units ("km/h", "mph", ...)
+ *   • displayMaxSpeed: gauge full scale (maxSpeed) in the selected units, rounded up to 10
+ *   • displayRedline: start of the gauge red zone (redlineSpeed) in the selected units
+ *   • displayOdometer: odometer in the selected units
+ *   • tripStats(id): trip distance, driving time and average/max speed in the selected units
  *   • powerPercent: current power level expressed as percentage (0–100)
  *   • canDec: flag to check if decreasing is possible (false if power & speed are zero)
  *
@@ -25,49 +118,515 @@
  */
 
 import { makeAutoObservable } from "mobx";
+import { TelemetrySample } from "../Telemetry/TelemetrySession";
+import {
+  CONSUMPTION_UNIT,
+  DISTANCE_UNIT,
+  fromDisplaySpeed,
+  SPEED_UNIT,
+  toDisplayConsumption,
+  toDisplayDistance,
+  toDisplaySpeed,
+  UnitSystem,
+} from "./units";
+import { consumption, DEFAULT_FUEL, FuelParams, fuelFlow } from "./FuelModel";
+import {
+  autoShift,
+  canShiftTo,
+  DEFAULT_GEARBOX,
+  engineRpm,
+  GearboxParams,
+  Transmission,
+} from "./Gearbox";
+import { ODOMETER_STORAGE_KEY } from "./odometerStorage";
+import type { OdometerData } from "./odometerStorage";
+import { AUTO_THEMES, ColorScheme, PRESET_THEMES, Theme, ThemeToken } from "../Theme/theme";
+import { overspeedRule } from "../Warnings/rules";
+import { WarningMonitor } from "../Warnings/WarningMonitor";
+import { SimulationClock } from "./SimulationClock";
+import { holdThrottle, minSpeed, SpeedControlMode, SpeedControlState } from "./SpeedControl";
+import { TripId, TripMeter } from "./TripMeter";
+import { DEFAULT_VEHICLE, integrate, VehicleParams } from "./VehicleModel";
+
+/** Default top of the power scale */
+export const MAX_POWER = 6;
+/** Default full scale of the speed gauge, in km/h */
+export const MAX_SPEED = 130;
+/** Default start of the speed gauge's red zone, in km/h */
+export const REDLINE_SPEED = 110;
+
+/** Per-instance setup of a store; anything left out takes the default. */
+export interface DashboardConfig {
+  /** Label for the vehicle, e.g. "stock" or "tuned" */
+  name?: string;
+  maxPower?: number;
+  /** km/h */
+  maxSpeed?: number;
+  /** km/h */
+  redlineSpeed?: number;
+  vehicle?: Partial<VehicleParams>;
+  gearbox?: Partial<GearboxParams>;
+  tank?: Partial<FuelParams>;
+  layout?: string;
+  /**
+   * Where the odometer is persisted; null keeps it in memory only. Default:
+   * ODOMETER_STORAGE_KEY, followed by ".<name>" for a named store.
+   */
+  odometerKey?: string | null;
+}
+
+/**
+ * Power clamped within [0, max] and rounded to 1 decimal; the rule every power the store
+ * takes goes through (see normalizePower).
+ */
+export function clampPower(n: number, max = MAX_POWER) {
+  const clamped = Math.min(max, Math.max(0, n));
+  return Number(clamped.toFixed(1));
+}
+
+const positiveOr = (v: number | undefined, fallback: number) =>
+  v !== undefined && Number.isFinite(v) && v > 0 ? v : fallback;
 
-const MAX_POWER = 6;
-const MAX_SPEED = 130;
+export type InputSource = "simulation" | "replay" | "remote";
+
+/** Something that drives the store step by step, like a scripted scenario. */
+export interface StepDriver {
+  /** Sets the inputs for the step about to be integrated */
+  beforeStep(dtMs: number): void;
+  /** Looks at the result of the step */
+  afterStep(dtMs: number): void;
+}
 
 export class DashboardStore {
-  speed = 0;
   power = 0;
-  distance = 0;
+  velocity = 0;
+  travelled = 0;
+  odometer = 0;
+  tripA = new TripMeter("A");
+  tripB = new TripMeter("B");
+  vehicle: VehicleParams = { ...DEFAULT_VEHICLE };
+  gearbox: GearboxParams = { ...DEFAULT_GEARBOX };
+  gear = 1;
+  transmission: Transmission = "automatic";
+  tank: FuelParams = { ...DEFAULT_FUEL };
+  fuel = DEFAULT_FUEL.capacity;
+  fuelUsed = 0;
+  fuelDistance = 0;
+  speedControl: SpeedControlState | null = null;
+  warnings = new WarningMonitor(this);
+  clock = new SimulationClock((dtMs) => this.advance(dtMs));
+  driver: StepDriver | null = null;
+  inputSource: InputSource = "simulation";
+  units: UnitSystem = "metric";
+  layout = "classic";
+  theme = "auto";
+  colorScheme: ColorScheme = "dark";
+  userThemes: Record<string, Theme> = {};
 
-  constructor() {
-    makeAutoObservable(this);
-  }
+  readonly name: string;
+  readonly maxPower: number;
+  readonly maxSpeed: number;
+  readonly redlineSpeed: number;
+  readonly odometerKey: string | null;
 
-  private normalizePower(n: number) {
-    const clamped = Math.min(MAX_POWER, Math.max(0, n));
-    return Number(clamped.toFixed(1));
+  constructor(config: DashboardConfig = {}) {
+    this.name = config.name ?? "";
+    this.maxPower = positiveOr(config.maxPower, MAX_POWER);
+    this.maxSpeed = positiveOr(config.maxSpeed, MAX_SPEED);
+    this.redlineSpeed = positiveOr(config.redlineSpeed, REDLINE_SPEED);
+    this.odometerKey =
+      config.odometerKey !== undefined
+        ? config.odometerKey
+        : config.name
+          ? `${ODOMETER_STORAGE_KEY}.${config.name}`
+          : ODOMETER_STORAGE_KEY;
+    if (config.vehicle) this.setVehicle(config.vehicle);
+    if (config.gearbox) this.setGearbox(config.gearbox);
+    if (config.tank) {
+      this.setTank(config.tank);
+      this.fuel = this.tank.capacity;
+    }
+    if (config.layout) this.layout = config.layout;
+    // The overspeed warning follows the gauge's red zone.
+    if (this.redlineSpeed !== REDLINE_SPEED) {
+      this.warnings.registerRule(overspeedRule({ limit: this.redlineSpeed }));
+    }
+    makeAutoObservable(this, {
+      name: false,
+      maxPower: false,
+      maxSpeed: false,
+      redlineSpeed: false,
+      odometerKey: false,
+    });
   }
 
-  private syncSpeed() {
-    const pct = this.power / MAX_POWER;
-    this.speed = Math.round(pct * MAX_SPEED);
+  private normalizePower(n: number) {
+    return clampPower(n, this.maxPower);
   }
 
   inc(step = 0.1) {
     this.power = this.normalizePower(this.power + step);
-    this.syncSpeed();
   }
   dec(step = 0.1) {
+    if (this.speedControl?.mode === "cruise") this.speedControl.engaged = false;
     this.power = this.normalizePower(this.power - step);
-    this.syncSpeed();
   }
 
   setPower(n: number) {
     this.power = this.normalizePower(Number(n));
-    this.syncSpeed();
+  }
+
+  setVehicle(params: Partial<VehicleParams>) {
+    const next = { ...this.vehicle };
+    for (const key of Object.keys(params) as (keyof VehicleParams)[]) {
+      const v = Number(params[key]);
+      // Every parameter is a physical magnitude; zero or negative values would break the model.
+      if (Number.isFinite(v) && v > 0) next[key] = v;
+    }
+    this.vehicle = next;
+  }
+
+  setGearbox(params: Partial<GearboxParams>) {
+    const next = { ...this.gearbox, ...params };
+    const valid =
+      next.ratios.length > 0 &&
+      next.ratios.every((r) => Number.isFinite(r) && r > 0) &&
+      [next.finalDrive, next.wheelRadius, next.idleRpm, next.redlineRpm, next.maxRpm].every(
+        (v) => Number.isFinite(v) && v > 0
+      );
+    if (!valid) return;
+    this.gearbox = next;
+    this.gear = Math.min(this.gear, next.ratios.length);
+  }
+
+  setTransmission(mode: Transmission) {
+    this.transmission = mode;
+  }
+
+  shiftUp() {
+    this.transmission = "manual";
+    if (canShiftTo(this.gear + 1, this.velocity, this.gearbox)) this.gear += 1;
+  }
+
+  shiftDown() {
+    this.transmission = "manual";
+    if (canShiftTo(this.gear - 1, this.velocity, this.gearbox)) this.gear -= 1;
+  }
+
+  setTank(params: Partial<FuelParams>) {
+    const next = { ...this.tank, ...params };
+    const valid =
+      [next.capacity, next.idleFlow, next.fullLoadFlow].every((v) => Number.isFinite(v) && v > 0) &&
+      next.fullLoadFlow >= next.idleFlow &&
+      Number.isFinite(next.lowLevel) &&
+      next.lowLevel >= 0 &&
+      next.lowLevel < 1;
+    if (!valid) return;
+    this.tank = next;
+    this.fuel = Math.min(this.fuel, next.capacity);
+  }
+
+  setFuel(litres: number) {
+    const n = Number(litres);
+    if (!Number.isFinite(n)) return;
+    this.fuel = Math.min(this.tank.capacity, Math.max(0, n));
+    this.fuelUsed = 0;
+    this.fuelDistance = 0;
+  }
+
+  refuel(litres = this.tank.capacity) {
+    const n = Number(litres);
+    if (!Number.isFinite(n) || n <= 0) return;
+    this.fuel = Math.min(this.tank.capacity, this.fuel + n);
+    this.fuelUsed = 0;
+    this.fuelDistance = 0;
+  }
+
+  setUnits(units: UnitSystem) {
+    this.units = units;
+  }
+
+  setLayout(name: string) {
+    this.layout = name;
+  }
+  setTheme(name: string) {
+    if (this.themeNames.includes(name)) this.theme = name;
+  }
+
+  addTheme(name: string, tokens: Partial<Theme>, base = "night") {
+    if (!name || name === "auto" || name in PRESET_THEMES) return;
+    const theme = { ...(PRESET_THEMES[base] ?? PRESET_THEMES.night) };
+    for (const token of Object.keys(tokens) as ThemeToken[]) {
+      const value = tokens[token];
+      if (token in theme && typeof value === "string" && value.trim()) theme[token] = value.trim();
+    }
+    this.userThemes[name] = theme;
+  }
+
+  setColorScheme(scheme: ColorScheme) {
+    this.colorScheme = scheme;
+  }
+
+  trip(id: TripId) {
+    return id === "A" ? this.tripA : this.tripB;
+  }
+
+  setCruise(target?: number) {
+    this.engageSpeedControl("cruise", target);
+  }
+
+  setLimiter(limit?: number) {
+    this.engageSpeedControl("limiter", limit);
+  }
+
+  private engageSpeedControl(mode: SpeedControlMode, displayTarget?: number) {
+    const target =
+      displayTarget == null ? this.velocity : fromDisplaySpeed(Number(displayTarget), this.units);
+    if (!Number.isFinite(target) || target < minSpeed(mode)) return;
+    if (mode === "cruise" && this.velocity < minSpeed(mode)) return;
+    this.speedControl = { mode, target, engaged: true };
+  }
+
+  cancelSpeedControl() {
+    if (this.speedControl) this.speedControl.engaged = false;
+  }
+
+  resumeSpeedControl() {
+    const control = this.speedControl;
+    if (!control) return;
+    if (control.mode === "cruise" && this.velocity < minSpeed("cruise")) return;
+    control.engaged = true;
+  }
+
+  resetTrip(id: TripId) {
+    this.trip(id).reset();
+  }
+
+  restoreOdometer(data: Pick<OdometerData, "odometer" | "trips">) {
+    this.odometer = data.odometer;
+    this.tripA.restore(data.trips.A);
+    this.tripB.restore(data.trips.B);
+  }
+
+  setDistance(km: number) {
+    const n = Number(km);
+    if (Number.isFinite(n)) this.travelled = Math.max(0, n) * 1000;
+  }
+
+  setInputSource(source: InputSource) {
+    this.inputSource = source;
+  }
+
+  applySample(sample: Omit<TelemetrySample, "t">) {
+    this.power = this.normalizePower(sample.power);
+    this.velocity = Math.max(0, sample.speed) / 3.6;
+    this.travelled = Math.max(0, sample.distance) * 1000;
+    // Samples can jump any distance in speed (seeks, reconnects), so settle
+    // the automatic box completely instead of one shift per update.
+    if (this.transmission === "automatic") {
+      for (let i = 0; i < this.gearbox.ratios.length; i++) {
+        const next = autoShift(this.gear, this.velocity, this.gearbox);
+        if (next === this.gear) break;
+        this.gear = next;
+      }
+    }
   }
 
   tick(dtMs: number) {
-    this.distance += this.speed * (dtMs / 3_600_000);
+    const throttle = this.driveThrottle;
+    const flow = this.fuelRate;
+    const burnt = Math.min(this.fuel, (flow * dtMs) / 3_600_000);
+    const step = integrate(this.velocity, throttle, dtMs / 1000, this.vehicle);
+    this.velocity = step.velocity;
+    this.travelled += step.distance;
+    this.odometer += step.distance;
+    this.tripA.record(dtMs, step.velocity, step.distance);
+    this.tripB.record(dtMs, step.velocity, step.distance);
+    this.fuel -= burnt;
+    this.fuelUsed += burnt;
+    this.fuelDistance += step.distance;
+    if (this.transmission === "automatic") {
+      this.gear = autoShift(this.gear, this.velocity, this.gearbox);
+    }
+    if (this.speedControlMode === "cruise") {
+      this.power = this.normalizePower(throttle * this.maxPower);
+    }
+  }
+
+  advance(dtMs: number) {
+    this.driver?.beforeStep(dtMs);
+    if (this.inputSource === "simulation") this.tick(dtMs);
+    this.warnings.update(dtMs);
+    this.driver?.afterStep(dtMs);
+  }
+
+  setDriver(driver: StepDriver | null) {
+    this.driver = driver;
+  }
+
+  resetMotion() {
+    this.velocity = 0;
+    this.power = 0;
+    this.gear = 1;
+    this.cancelSpeedControl();
+  }
+
+  get speed() {
+    return this.velocity * 3.6;
+  }
+
+  get distance() {
+    return this.travelled / 1000;
+  }
+
+  get simTime() {
+    return this.clock.simTime;
+  }
+
+  get displaySpeed() {
+    return toDisplaySpeed(this.velocity, this.units);
+  }
+
+  get displayDistance() {
+    return toDisplayDistance(this.travelled, this.units);
+  }
+
+  get speedUnit() {
+    return SPEED_UNIT[this.units];
+  }
+
+  get distanceUnit() {
+    return DISTANCE_UNIT[this.units];
+  }
+
+  get displayMaxSpeed() {
+    const max = toDisplaySpeed(fromDisplaySpeed(this.maxSpeed, "metric"), this.units);
+    return Math.ceil(max / 10 - 1e-9) * 10;
+  }
+
+  get displayRedline() {
+    return toDisplaySpeed(fromDisplaySpeed(this.redlineSpeed, "metric"), this.units);
+  }
+
+  get displayOdometer() {
+    return toDisplayDistance(this.odometer, this.units);
+  }
+
+  tripStats(id: TripId) {
+    const trip = this.trip(id);
+    return {
+      distance: toDisplayDistance(trip.distance, this.units),
+      elapsed: trip.elapsed,
+      averageSpeed: toDisplaySpeed(trip.averageVelocity, this.units),
+      maxSpeed: toDisplaySpeed(trip.maxVelocity, this.units),
+    };
+  }
+
+  get rpm() {
+    return engineRpm(this.velocity, this.gear, this.gearbox);
+  }
+
+  get redlineRpm() {
+    return this.gearbox.redlineRpm;
+  }
+
+  get maxRpm() {
+    return this.gearbox.maxRpm;
+  }
+
+  get themeNames() {
+    return ["auto", ...Object.keys(PRESET_THEMES), ...Object.keys(this.userThemes)];
+  }
+
+  get palette(): Theme {
+    const name = this.theme === "auto" ? AUTO_THEMES[this.colorScheme] : this.theme;
+    return this.userThemes[name] ?? PRESET_THEMES[name] ?? PRESET_THEMES.night;
+  }
+
+  get activeWarnings() {
+    return this.warnings.list;
+  }
+
+  get overspeed() {
+    return this.warnings.isActive("overspeed");
+  }
+
+  get fuelLevel() {
+    return this.fuel / this.tank.capacity;
+  }
+
+  get fuelLowLevel() {
+    return this.tank.lowLevel;
+  }
+
+  get fuelLow() {
+    return this.fuelLevel < this.tank.lowLevel;
+  }
+
+  get fuelEmpty() {
+    return this.fuel <= 0;
+  }
+
+  get fuelRate() {
+    return this.fuelEmpty ? 0 : fuelFlow(this.driveThrottle, this.tank);
+  }
+
+  get instantConsumption() {
+    // L/h over km/h; meaningless while (nearly) standing still.
+    return this.velocity < 1 ? null : (this.fuelRate / this.speed) * 100;
+  }
+
+  get averageConsumption() {
+    return consumption(this.fuelUsed, this.fuelDistance);
+  }
+
+  get range() {
+    const per100km = this.averageConsumption ?? this.instantConsumption;
+    return per100km ? (this.fuel / per100km) * 100_000 : null;
+  }
+
+  get consumptionUnit() {
+    return CONSUMPTION_UNIT[this.units];
+  }
+
+  get displayInstantConsumption() {
+    const c = this.instantConsumption;
+    return c == null ? null : toDisplayConsumption(c, this.units);
+  }
+
+  get displayAverageConsumption() {
+    const c = this.averageConsumption;
+    return c == null ? null : toDisplayConsumption(c, this.units);
+  }
+
+  get displayRange() {
+    return this.range == null ? null : toDisplayDistance(this.range, this.units);
+  }
+
+  get throttle() {
+    return this.power / this.maxPower;
+  }
+
+  get driveThrottle() {
+    // Rev limiter: no drive above redline (only reachable in manual); no drive without fuel.
+    if (this.rpm >= this.redlineRpm || this.fuelEmpty) return 0;
+    const control = this.speedControl;
+    if (!control?.engaged) return this.throttle;
+    const hold = holdThrottle(control.target, this.velocity, this.vehicle);
+    return control.mode === "cruise" ? hold : Math.min(this.throttle, hold);
+  }
+
+  get speedControlMode(): SpeedControlMode | "off" {
+    return this.speedControl?.engaged ? this.speedControl.mode : "off";
+  }
+
+  get displaySpeedTarget() {
+    const control = this.speedControl;
+    return control?.engaged ? toDisplaySpeed(control.target, this.units) : null;
   }
 
   get powerPercent() {
-    return Math.round((this.power / MAX_POWER) * 100);
+    return Math.round((this.power / this.maxPower) * 100);
   }
 
   get canDec() {
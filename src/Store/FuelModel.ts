@@ -0,0 +1,43 @@
+/**
+ * FuelModel
+ * ------------------------------
+ * Fuel consumption used by `DashboardStore`. Works in litres, hours and metres;
+ * display units are applied by the store (see units.ts).
+ *
+ * - fuelFlow(throttle, params): burn rate in L/h, from idle flow at zero throttle
+ *   up to full-load flow at full throttle
+ * - consumption(litres, metres): L/100 km over a stretch, or null when it is too
+ *   short to say anything (standing still, first metres after a refuel)
+ */
+
+export interface FuelParams {
+  /** Tank size in L */
+  capacity: number;
+  /** Burn rate with the engine idling, in L/h */
+  idleFlow: number;
+  /** Burn rate at full throttle, in L/h */
+  fullLoadFlow: number;
+  /** Level (0–1 of capacity) below which the low-fuel warning shows */
+  lowLevel: number;
+}
+
+/** Roughly a 25 kW engine at ~250 g/kWh, with a small hatchback's tank. */
+export const DEFAULT_FUEL: FuelParams = {
+  capacity: 45,
+  idleFlow: 0.8,
+  fullLoadFlow: 9,
+  lowLevel: 0.15,
+};
+
+// Below this distance an average is mostly noise.
+const MIN_CONSUMPTION_DISTANCE = 100;
+
+export function fuelFlow(throttle: number, p: FuelParams) {
+  const t = Math.min(1, Math.max(0, throttle));
+  return p.idleFlow + t * (p.fullLoadFlow - p.idleFlow);
+}
+
+export function consumption(litres: number, metres: number) {
+  if (metres < MIN_CONSUMPTION_DISTANCE) return null;
+  return (litres / metres) * 100_000;
+}
@@ -0,0 +1,64 @@
+/**
+ * Gearbox
+ * ------------------------------
+ * Drivetrain kinematics used by `DashboardStore` to derive engine RPM from
+ * vehicle speed, plus the automatic shift logic.
+ *
+ * - engineRpm(velocity, gear, params): wheel speed × gear ratio × final drive,
+ *   never below idle (below that the clutch is assumed to slip)
+ * - autoShift(gear, velocity, params): the gear an automatic box would pick
+ *   next — one step up past upshiftRpm, one step down under downshiftRpm
+ * - canShiftTo(gear, velocity, params): false if the gear doesn't exist or would
+ *   over-rev the engine (used to refuse destructive manual downshifts)
+ */
+
+export type Transmission = "automatic" | "manual";
+
+export interface GearboxParams {
+  /** Ratio per gear, 1st first */
+  ratios: number[];
+  finalDrive: number;
+  /** Rolling radius of the driven wheels, in m */
+  wheelRadius: number;
+  idleRpm: number;
+  /** Engine limit: the rev limiter cuts power above this */
+  redlineRpm: number;
+  /** Full scale of the tachometer */
+  maxRpm: number;
+  upshiftRpm: number;
+  downshiftRpm: number;
+}
+
+export const DEFAULT_GEARBOX: GearboxParams = {
+  ratios: [3.6, 2.1, 1.4, 1.05, 0.82],
+  finalDrive: 3.9,
+  wheelRadius: 0.31,
+  idleRpm: 800,
+  redlineRpm: 6500,
+  maxRpm: 8000,
+  upshiftRpm: 5000,
+  downshiftRpm: 1800,
+};
+
+const RAD_PER_SEC_TO_RPM = 60 / (2 * Math.PI);
+
+/** Engine speed the drivetrain imposes in `gear`, without the idle floor. */
+function drivenRpm(velocity: number, gear: number, p: GearboxParams) {
+  const ratio = p.ratios[gear - 1] ?? p.ratios[0];
+  return (velocity / p.wheelRadius) * ratio * p.finalDrive * RAD_PER_SEC_TO_RPM;
+}
+
+export function engineRpm(velocity: number, gear: number, p: GearboxParams) {
+  return Math.max(p.idleRpm, drivenRpm(velocity, gear, p));
+}
+
+export function canShiftTo(gear: number, velocity: number, p: GearboxParams) {
+  return gear >= 1 && gear <= p.ratios.length && drivenRpm(velocity, gear, p) <= p.redlineRpm;
+}
+
+export function autoShift(gear: number, velocity: number, p: GearboxParams) {
+  const rpm = drivenRpm(velocity, gear, p);
+  if (rpm > p.upshiftRpm && gear < p.ratios.length) return gear + 1;
+  if (rpm < p.downshiftRpm && gear > 1) return gear - 1;
+  return gear;
+}
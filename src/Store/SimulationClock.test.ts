@@ -0,0 +1,105 @@
+import { ClockOptions, ManualTimeSource, MAX_TIME_SCALE, SimulationClock } from "./SimulationClock";
+
+/** A started clock with 10 ms steps on manual time, past its first frame. */
+function setup(options: ClockOptions = {}) {
+  const time = new ManualTimeSource();
+  const steps: number[] = [];
+  const clock = new SimulationClock((dtMs) => steps.push(dtMs), {
+    stepMs: 10,
+    timeSource: time,
+    ...options,
+  });
+  clock.start();
+  time.advance(0); // the first frame only notes the time
+  return { clock, time, steps };
+}
+
+test("runs fixed steps and carries the remainder to the next frame", () => {
+  const { clock, time, steps } = setup();
+  time.advance(25);
+  expect(steps).toEqual([10, 10]);
+  expect(clock.backlog).toBeCloseTo(5);
+
+  time.advance(5);
+  expect(steps).toEqual([10, 10, 10]);
+  expect(clock.simTime).toBe(30);
+});
+
+test("doesn't lose a step to floating point with the default 60 Hz step", () => {
+  const time = new ManualTimeSource();
+  let count = 0;
+  const clock = new SimulationClock(() => count++, { timeSource: time });
+  clock.start();
+  time.advance(0);
+  for (let i = 0; i < 60; i++) time.advance(1000 / 60);
+  expect(count).toBe(60);
+});
+
+test("stands still while paused and steps once on demand", () => {
+  const { clock, time, steps } = setup();
+  clock.pause();
+  time.advance(100);
+  expect(steps).toEqual([]);
+
+  clock.stepOnce();
+  expect(steps).toEqual([10]);
+  expect(clock.simTime).toBe(10);
+
+  // Time that passed while paused isn't owed afterwards.
+  clock.resume();
+  time.advance(10);
+  expect(steps).toHaveLength(2);
+  expect(clock.backlog).toBe(0);
+});
+
+test("scales real time into simulated time", () => {
+  const { clock, time, steps } = setup();
+  clock.setTimeScale(2);
+  time.advance(50);
+  expect(steps).toHaveLength(10);
+
+  clock.setTimeScale(0.5);
+  time.advance(30);
+  expect(steps).toHaveLength(11);
+  expect(clock.backlog).toBeCloseTo(5);
+
+  clock.setTimeScale(0);
+  expect(clock.timeScale).toBe(0.5);
+  clock.setTimeScale(100);
+  expect(clock.timeScale).toBe(MAX_TIME_SCALE);
+});
+
+test("works off a long gap a few steps per frame", () => {
+  const { clock, time, steps } = setup({ maxStepsPerFrame: 5 });
+  time.advance(200);
+  expect(steps).toHaveLength(5);
+  expect(clock.backlog).toBeCloseTo(150);
+  expect(clock.catchingUp).toBe(true);
+
+  const perFrame: number[] = [];
+  while (clock.backlog > 0) {
+    const before = steps.length;
+    time.advance(10);
+    perFrame.push(steps.length - before);
+  }
+  expect(perFrame).toEqual([5, 5, 5, 4]);
+  expect(clock.catchingUp).toBe(false);
+  // Everything owed was run: 200 ms plus the four 10 ms frames.
+  expect(clock.simTime).toBeCloseTo(240);
+});
+
+test("drops and counts the time beyond the backlog limit", () => {
+  const { clock, time, steps } = setup({ maxStepsPerFrame: 5, maxBacklogMs: 100 });
+  time.advance(250);
+  expect(clock.droppedMs).toBeCloseTo(150);
+  expect(steps).toHaveLength(5);
+  expect(clock.backlog).toBeCloseTo(50);
+});
+
+test("stops asking for frames once stopped", () => {
+  const { clock, time, steps } = setup();
+  clock.stop();
+  time.advance(100);
+  expect(steps).toEqual([]);
+  expect(clock.running).toBe(false);
+});
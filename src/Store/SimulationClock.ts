@@ -0,0 +1,193 @@
+/**
+ * SimulationClock
+ * ------------------------------
+ * Drives a simulation in fixed steps of simulated time, whatever the frame rate.
+ *
+ * - onStep(stepMs) is called with the same step every time (default 1000/60 ms), as many
+ *   times as the elapsed time calls for; leftover time carries over to the next frame,
+ *   so nothing is lost to clamping and results don't depend on frame timing
+ * - pause() / resume(): while paused, real time passes without moving the simulation;
+ *   stepOnce() advances exactly one step (handy while paused)
+ * - setTimeScale(scale): simulated ms per real ms (0.25x slow motion up to 20x)
+ * - Catch-up: after a long gap (a backgrounded tab gets no frames) the owed time is kept as
+ *   a backlog and worked off at most `maxStepsPerFrame` steps per frame, so the page stays
+ *   responsive while the simulation fast-forwards. Anything above `maxBacklogMs` is
+ *   dropped and counted in droppedMs rather than lost silently.
+ * - advance(realMs): feeds elapsed real time by hand; start() does it from the time
+ *   source's frames
+ *
+ * The time source is injectable: the default uses performance.now() and
+ * requestAnimationFrame; ManualTimeSource lets tests and headless runs move time
+ * deterministically.
+ */
+
+import { makeAutoObservable } from "mobx";
+
+export interface TimeSource {
+  /** Current time in ms */
+  now(): number;
+  requestFrame(cb: () => void): number;
+  cancelFrame(handle: number): void;
+}
+
+export const ANIMATION_FRAME_TIME: TimeSource = {
+  now: () => performance.now(),
+  requestFrame: (cb) => requestAnimationFrame(cb),
+  cancelFrame: (handle) => cancelAnimationFrame(handle),
+};
+
+/** A time source that only moves when told to; advance(ms) runs the pending frame. */
+export class ManualTimeSource implements TimeSource {
+  private time = 0;
+  private frames = new Map<number, () => void>();
+  private nextHandle = 1;
+
+  now() {
+    return this.time;
+  }
+
+  requestFrame(cb: () => void) {
+    const handle = this.nextHandle++;
+    this.frames.set(handle, cb);
+    return handle;
+  }
+
+  cancelFrame(handle: number) {
+    this.frames.delete(handle);
+  }
+
+  /** Moves time forward by ms and runs the frame callbacks that were waiting. */
+  advance(ms: number) {
+    this.time += ms;
+    const due = [...this.frames.values()];
+    this.frames.clear();
+    due.forEach((cb) => cb());
+  }
+}
+
+// Steps like 1000/60 don't add up exactly in floating point; don't let that cost a step.
+const EPSILON = 1e-6;
+
+export const TIME_SCALES = [0.25, 0.5, 1, 2, 5, 10] as const;
+export const MAX_TIME_SCALE = 20;
+
+export interface ClockOptions {
+  stepMs?: number;
+  timeSource?: TimeSource;
+  /** Steps run per frame at most; the rest of the backlog waits for later frames */
+  maxStepsPerFrame?: number;
+  /** Simulated time owed beyond this is dropped (counted in droppedMs) */
+  maxBacklogMs?: number;
+}
+
+export class SimulationClock {
+  paused = false;
+  timeScale = 1;
+  /** Simulated ms since the clock was created */
+  simTime = 0;
+  /** Simulated ms owed but not run yet */
+  backlog = 0;
+  /** Simulated ms given up because the backlog overflowed */
+  droppedMs = 0;
+  running = false;
+
+  readonly stepMs: number;
+  private maxStepsPerFrame: number;
+  private maxBacklogMs: number;
+  private timeSource: TimeSource;
+  private frame: number | null = null;
+  private last: number | null = null;
+
+  constructor(
+    private onStep: (stepMs: number) => void,
+    options: ClockOptions = {}
+  ) {
+    this.stepMs = options.stepMs ?? 1000 / 60;
+    this.maxStepsPerFrame = options.maxStepsPerFrame ?? 240;
+    this.maxBacklogMs = options.maxBacklogMs ?? 10 * 60_000;
+    this.timeSource = options.timeSource ?? ANIMATION_FRAME_TIME;
+    makeAutoObservable<
+      SimulationClock,
+      "onStep" | "maxStepsPerFrame" | "maxBacklogMs" | "timeSource" | "frame" | "last" | "loop"
+    >(this, {
+      stepMs: false,
+      onStep: false,
+      maxStepsPerFrame: false,
+      maxBacklogMs: false,
+      timeSource: false,
+      frame: false,
+      last: false,
+      loop: false,
+    });
+  }
+
+  /** Whether the simulation is behind real time by more than one frame's worth of steps */
+  get catchingUp() {
+    return this.backlog > this.stepMs * this.maxStepsPerFrame;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.last = null;
+    this.frame = this.timeSource.requestFrame(this.loop);
+  }
+
+  stop() {
+    this.running = false;
+    if (this.frame != null) this.timeSource.cancelFrame(this.frame);
+    this.frame = null;
+    this.last = null;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+  }
+
+  togglePause() {
+    this.paused = !this.paused;
+  }
+
+  setTimeScale(scale: number) {
+    const n = Number(scale);
+    if (Number.isFinite(n) && n > 0) this.timeScale = Math.min(MAX_TIME_SCALE, n);
+  }
+
+  /** Runs exactly one step, paused or not. */
+  stepOnce() {
+    this.runStep();
+  }
+
+  /** Accounts for realMs of elapsed real time and runs the steps it pays for. */
+  advance(realMs: number) {
+    if (this.paused || !(realMs > 0)) return;
+    this.backlog += realMs * this.timeScale;
+    if (this.backlog > this.maxBacklogMs) {
+      this.droppedMs += this.backlog - this.maxBacklogMs;
+      this.backlog = this.maxBacklogMs;
+    }
+    let steps = 0;
+    while (this.backlog >= this.stepMs - EPSILON && steps < this.maxStepsPerFrame) {
+      this.backlog = Math.max(0, this.backlog - this.stepMs);
+      this.runStep();
+      steps++;
+    }
+  }
+
+  private runStep() {
+    this.simTime += this.stepMs;
+    this.onStep(this.stepMs);
+  }
+
+  private loop = () => {
+    if (!this.running) return;
+    const now = this.timeSource.now();
+    if (this.last != null) this.advance(now - this.last);
+    this.last = now;
+    this.frame = this.timeSource.requestFrame(this.loop);
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * SpeedControl
+ * ------------------------------
+ * Cruise control and speed limiter used by `DashboardStore`. Works in m/s like the
+ * vehicle model (see VehicleModel.ts).
+ *
+ * - Cruise control holds `target` by setting the throttle itself.
+ * - The speed limiter caps the driver's throttle so speed doesn't go past `target`.
+ * - Both use holdThrottle(target, velocity, vehicle). It has two parts:
+ *   • feed-forward: the throttle that balances drag and rolling resistance at the
+ *     target, so there is no steady-state error;
+ *   • a proportional correction for the remaining difference.
+ *   Approaching the target from below it eases off instead of overshooting.
+ *
+ * A controller is set up with a mode and a target, and is engaged or not: cancelling keeps
+ * the target so it can be resumed.
+ */
+
+import { resistanceForce, VehicleParams } from "./VehicleModel";
+
+export type SpeedControlMode = "cruise" | "limiter";
+
+export interface SpeedControlState {
+  mode: SpeedControlMode;
+  /** Target (cruise) or limit (limiter), in m/s */
+  target: number;
+  engaged: boolean;
+}
+
+/** Slowest speed cruise control can be set or resumed at, in m/s (30 km/h) */
+export const CRUISE_MIN_SPEED = 30 / 3.6;
+/** Lowest limit the speed limiter accepts, in m/s (20 km/h) */
+export const LIMITER_MIN_SPEED = 20 / 3.6;
+
+// Throttle added per m/s below the target.
+const GAIN = 0.15;
+
+export function holdThrottle(target: number, velocity: number, p: VehicleParams) {
+  // At the target, traction (throttle × power / v) has to match the resistance.
+  const feedForward = (resistanceForce(target, p) * Math.max(target, 1)) / p.maxEnginePower;
+  return Math.min(1, Math.max(0, feedForward + GAIN * (target - velocity)));
+}
+
+export function minSpeed(mode: SpeedControlMode) {
+  return mode === "cruise" ? CRUISE_MIN_SPEED : LIMITER_MIN_SPEED;
+}
@@ -0,0 +1,54 @@
+/**
+ * StoreGroup
+ * ------------------------------
+ * Drives several `DashboardStore`s with the same input, for side-by-side comparisons of
+ * vehicle variants.
+ *
+ * - clock: one SimulationClock stepping every store with the same dt, so the variants stay
+ *   in lockstep and pause / time scale apply to all of them (the stores' own clocks are
+ *   left stopped)
+ * - A ThrottleTarget for keyboard, gamepad and on-screen input: inc / dec / setPower give
+ *   every store the same throttle, on the first store's power scale; dec cancels cruise
+ *   control on each, like touching the brake
+ * - restart(): brings every vehicle back to rest, for another run from standstill
+ */
+
+import { DashboardStore, MAX_POWER } from "./DashboardStore";
+import { SimulationClock } from "./SimulationClock";
+import { ThrottleTarget } from "../Input/InputController";
+
+export class StoreGroup implements ThrottleTarget {
+  readonly clock = new SimulationClock((dtMs) => this.stores.forEach((s) => s.advance(dtMs)));
+
+  constructor(readonly stores: DashboardStore[]) {}
+
+  get maxPower() {
+    return this.stores[0]?.maxPower ?? MAX_POWER;
+  }
+
+  /** Throttle (0–1) the group is driving with */
+  get throttle() {
+    return this.stores[0]?.throttle ?? 0;
+  }
+
+  inc(step = 0.1) {
+    this.setPower(this.throttle * this.maxPower + step);
+  }
+
+  dec(step = 0.1) {
+    for (const store of this.stores) {
+      if (store.speedControlMode === "cruise") store.cancelSpeedControl();
+    }
+    this.setPower(this.throttle * this.maxPower - step);
+  }
+
+  setPower(n: number) {
+    const throttle = Math.min(1, Math.max(0, Number(n) / this.maxPower));
+    if (!Number.isFinite(throttle)) return;
+    for (const store of this.stores) store.setPower(throttle * store.maxPower);
+  }
+
+  restart() {
+    for (const store of this.stores) store.resetMotion();
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * TripMeter
+ * ------------------------------
+ * A resettable trip computer, fed by `DashboardStore.tick()`.
+ *
+ * - State (SI):
+ *   • distance: metres since the last reset
+ *   • elapsed: driving time in ms (time spent moving; standing still doesn't count)
+ *   • maxVelocity: highest velocity seen, m/s
+ *
+ * - Behavior:
+ *   • record(dtMs, velocity, distance): accounts one simulation step
+ *   • reset(): zeroes everything
+ *   • snapshot() / restore(data): plain-object form used for persistence
+ *
+ * - Computed:
+ *   • averageVelocity: distance / driving time, m/s
+ */
+
+import { makeAutoObservable } from "mobx";
+
+export type TripId = "A" | "B";
+
+export interface TripSnapshot {
+  distance: number;
+  elapsed: number;
+  maxVelocity: number;
+}
+
+export class TripMeter {
+  distance = 0;
+  elapsed = 0;
+  maxVelocity = 0;
+
+  constructor(readonly id: TripId) {
+    makeAutoObservable(this, { id: false });
+  }
+
+  record(dtMs: number, velocity: number, distance: number) {
+    if (velocity <= 0 && distance <= 0) return;
+    this.distance += distance;
+    this.elapsed += dtMs;
+    if (velocity > this.maxVelocity) this.maxVelocity = velocity;
+  }
+
+  reset() {
+    this.distance = 0;
+    this.elapsed = 0;
+    this.maxVelocity = 0;
+  }
+
+  get averageVelocity() {
+    return this.elapsed > 0 ? this.distance / (this.elapsed / 1000) : 0;
+  }
+
+  snapshot(): TripSnapshot {
+    return { distance: this.distance, elapsed: this.elapsed, maxVelocity: this.maxVelocity };
+  }
+
+  restore(data: TripSnapshot) {
+    this.distance = data.distance;
+    this.elapsed = data.elapsed;
+    this.maxVelocity = data.maxVelocity;
+  }
+}
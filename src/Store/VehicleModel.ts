@@ -0,0 +1,80 @@
+/**
+ * VehicleModel
+ * ------------------------------
+ * Longitudinal (straight-line) vehicle dynamics used by `DashboardStore`.
+ * Everything in here works in SI units: kg, m, s, N, W.
+ *
+ * - Forces:
+ *   • traction: throttle × engine power / velocity, capped by the grip limit
+ *   • aerodynamic drag: ½ · ρ · Cd · A · v²
+ *   • rolling resistance: Crr · m · g
+ *
+ * - integrate(velocity, throttle, dtSec, params):
+ *   advances the vehicle by dtSec and returns the new velocity (m/s, never
+ *   negative) together with the distance covered during the step (m).
+ *   Large steps are split into small sub-steps so a dropped frame does not
+ *   make the model unstable.
+ */
+
+export interface VehicleParams {
+  /** Vehicle mass in kg */
+  mass: number;
+  /** Aerodynamic drag coefficient (Cd) */
+  dragCoefficient: number;
+  /** Frontal area in m² */
+  frontalArea: number;
+  /** Rolling resistance coefficient (Crr) */
+  rollingResistance: number;
+  /** Engine power at the wheels at full throttle, in W */
+  maxEnginePower: number;
+  /** Grip-limited maximum traction force, in N */
+  maxTractionForce: number;
+  /** Air density in kg/m³ */
+  airDensity: number;
+}
+
+/** A small hatchback tuned so full throttle tops out around 130 km/h. */
+export const DEFAULT_VEHICLE: VehicleParams = {
+  mass: 1200,
+  dragCoefficient: 0.3,
+  frontalArea: 2.2,
+  rollingResistance: 0.012,
+  maxEnginePower: 25_000,
+  maxTractionForce: 4_000,
+  airDensity: 1.225,
+};
+
+const GRAVITY = 9.81;
+const MAX_SUBSTEP_SEC = 0.02;
+// Below this speed P / v explodes, so traction is bounded by grip instead.
+const MIN_TRACTION_SPEED = 1;
+
+export function tractionForce(throttle: number, velocity: number, p: VehicleParams) {
+  if (throttle <= 0) return 0;
+  const fromPower = (throttle * p.maxEnginePower) / Math.max(velocity, MIN_TRACTION_SPEED);
+  return Math.min(p.maxTractionForce, fromPower);
+}
+
+export function resistanceForce(velocity: number, p: VehicleParams) {
+  if (velocity <= 0) return 0;
+  const drag = 0.5 * p.airDensity * p.dragCoefficient * p.frontalArea * velocity * velocity;
+  const rolling = p.rollingResistance * p.mass * GRAVITY;
+  return drag + rolling;
+}
+
+export function integrate(velocity: number, throttle: number, dtSec: number, p: VehicleParams) {
+  let v = velocity;
+  let distance = 0;
+  let remaining = Math.max(0, dtSec);
+
+  while (remaining > 0) {
+    const h = Math.min(MAX_SUBSTEP_SEC, remaining);
+    const force = tractionForce(throttle, v, p) - resistanceForce(v, p);
+    const next = Math.max(0, v + (force / p.mass) * h);
+    distance += ((v + next) / 2) * h;
+    v = next;
+    remaining -= h;
+  }
+
+  return { velocity: v, distance };
+}
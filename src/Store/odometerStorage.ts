@@ -0,0 +1,101 @@
+/**
+ * Odometer persistence
+ * ------------------------------
+ * Keeps the lifetime odometer and both trip meters in localStorage, so they
+ * survive page reloads.
+ *
+ * Stored shape (versioned so the format can evolve without corrupting old data):
+ *
+ *   { "version": 1, "odometer": 123456.7, "trips": { "A": TripSnapshot, "B": TripSnapshot } }
+ *
+ * - loadOdometer(storage, key): reads and validates; returns null for missing,
+ *   corrupt or unknown-version data (the store then starts from zero)
+ * - saveOdometer(storage, key, data): writes the current state
+ * - persistOdometer(store, storage, key): restores once, then saves on change
+ *   (throttled) and when the page is hidden/closed; returns a disposer
+ */
+
+import { reaction } from "mobx";
+import { DashboardStore } from "./DashboardStore";
+import { TripId, TripSnapshot } from "./TripMeter";
+
+export const ODOMETER_STORAGE_KEY = "dashboard.odometer";
+const SCHEMA_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+export interface OdometerData {
+  version: typeof SCHEMA_VERSION;
+  odometer: number;
+  trips: Record<TripId, TripSnapshot>;
+}
+
+const nonNegative = (v: unknown) => {
+  const n = Number(v);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+};
+
+function parseTrip(v: unknown): TripSnapshot | null {
+  if (!v || typeof v !== "object") return null;
+  const t = v as Record<string, unknown>;
+  const distance = nonNegative(t.distance);
+  const elapsed = nonNegative(t.elapsed);
+  const maxVelocity = nonNegative(t.maxVelocity);
+  if (distance == null || elapsed == null || maxVelocity == null) return null;
+  return { distance, elapsed, maxVelocity };
+}
+
+export function loadOdometer(storage: Storage, key = ODOMETER_STORAGE_KEY): OdometerData | null {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(storage.getItem(key) ?? "null");
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== "object") return null;
+
+  const data = raw as Record<string, unknown>;
+  if (data.version !== SCHEMA_VERSION) return null;
+
+  const odometer = nonNegative(data.odometer);
+  const trips = (data.trips ?? {}) as Record<string, unknown>;
+  const A = parseTrip(trips.A);
+  const B = parseTrip(trips.B);
+  if (odometer == null || !A || !B) return null;
+
+  return { version: SCHEMA_VERSION, odometer, trips: { A, B } };
+}
+
+export function saveOdometer(storage: Storage, key: string, data: Omit<OdometerData, "version">) {
+  try {
+    storage.setItem(key, JSON.stringify({ version: SCHEMA_VERSION, ...data }));
+  } catch {
+    // Quota exceeded or storage disabled (private mode): the odometer just won't persist.
+  }
+}
+
+export function persistOdometer(
+  store: DashboardStore,
+  storage: Storage = window.localStorage,
+  key = ODOMETER_STORAGE_KEY
+) {
+  const saved = loadOdometer(storage, key);
+  if (saved) store.restoreOdometer(saved);
+
+  const snapshot = () => ({
+    odometer: store.odometer,
+    trips: { A: store.tripA.snapshot(), B: store.tripB.snapshot() },
+  });
+  const flush = () => saveOdometer(storage, key, snapshot());
+
+  const dispose = reaction(snapshot, (data) => saveOdometer(storage, key, data), {
+    delay: SAVE_DELAY_MS,
+  });
+  // The throttled save can lag by up to SAVE_DELAY_MS; don't lose that on close.
+  window.addEventListener("pagehide", flush);
+
+  return () => {
+    dispose();
+    window.removeEventListener("pagehide", flush);
+    flush();
+  };
+}
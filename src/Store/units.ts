@@ -0,0 +1,51 @@
+/**
+ * Unit system helpers
+ * ------------------------------
+ * The store integrates in SI (m/s, m) and only converts at the edge, so
+ * switching units mid-trip never rounds the underlying state.
+ *
+ * - toDisplaySpeed(ms, units): m/s → km/h or mph
+ * - toDisplayDistance(m, units): m → km or mi
+ * - fromDisplaySpeed(v, units): km/h or mph → m/s
+ * - toDisplayConsumption(l100km, units): L/100 km → L/100 km or mpg (US)
+ * - SPEED_UNIT / DISTANCE_UNIT / CONSUMPTION_UNIT: labels shown next to values
+ */
+
+export type UnitSystem = "metric" | "imperial";
+
+export const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+const MS_PER_KMH = 1 / 3.6;
+const MS_PER_MPH = 0.44704;
+const M_PER_KM = 1000;
+const M_PER_MILE = 1609.344;
+// mpg (US) = MPG_L100KM / (L/100 km); the conversion is its own inverse.
+const MPG_L100KM = 235.215;
+
+export const SPEED_UNIT: Record<UnitSystem, string> = { metric: "km/h", imperial: "mph" };
+export const DISTANCE_UNIT: Record<UnitSystem, string> = { metric: "km", imperial: "mi" };
+export const CONSUMPTION_UNIT: Record<UnitSystem, string> = {
+  metric: "L/100 km",
+  imperial: "mpg",
+};
+
+export function toDisplaySpeed(ms: number, units: UnitSystem) {
+  return ms / (units === "imperial" ? MS_PER_MPH : MS_PER_KMH);
+}
+
+export function fromDisplaySpeed(value: number, units: UnitSystem) {
+  return value * (units === "imperial" ? MS_PER_MPH : MS_PER_KMH);
+}
+
+export function toDisplayDistance(m: number, units: UnitSystem) {
+  return m / (units === "imperial" ? M_PER_MILE : M_PER_KM);
+}
+
+export function toDisplayConsumption(l100km: number, units: UnitSystem) {
+  if (units === "metric") return l100km;
+  return l100km > 0 ? MPG_L100KM / l100km : Infinity;
+}
+
+export function isUnitSystem(v: unknown): v is UnitSystem {
+  return UNIT_SYSTEMS.includes(v as UnitSystem);
+}
@@ -0,0 +1,135 @@
+/**
+ * URL state
+ * ------------------------------
+ * Keeps the dashboard's shareable state in the URL hash, so a link opens the same setup
+ * (the app is a static site: the URL is the only thing a link can carry).
+ *
+ * Hash shape (versioned so the format can evolve without old links breaking new code):
+ *
+ *   #v=1&p=3.5&d=12.345&u=imperial&t=night&l=compact
+ *
+ *   v: format version · p: power · d: distance in km · u: units · t: theme · l: layout
+ *
+ * - encodeUrlState(state): the hash for a state (without the leading "#")
+ * - parseUrlState(hash, options): reads and validates a hash; returns null when it isn't
+ *   ours (missing or unknown version). Within a known version each field is checked on
+ *   its own: power is clamped like the store does (clampPower: [0, maxPower], 1 decimal),
+ *   distance to >= 0; non-numbers and unknown units, themes or layouts are dropped, so
+ *   the store keeps its own value for them
+ * - persistUrlState(store, layouts, win): restores from the hash once, then keeps the hash
+ *   up to date (throttled, without adding history entries) and applies hashes pasted into
+ *   the address bar; returns a disposer
+ */
+
+import { reaction } from "mobx";
+import { clampPower, DashboardStore, MAX_POWER } from "./DashboardStore";
+import { UNIT_SYSTEMS, UnitSystem } from "./units";
+
+const URL_STATE_VERSION = 1;
+const SAVE_DELAY_MS = 1000;
+
+export interface UrlState {
+  version: typeof URL_STATE_VERSION;
+  power: number;
+  /** km */
+  distance: number;
+  units: UnitSystem;
+  theme: string;
+  layout: string;
+}
+
+export interface UrlStateOptions {
+  /** Top of the power scale values are clamped to (default MAX_POWER) */
+  maxPower?: number;
+  /** Accepted theme names; anything else is dropped */
+  themes?: readonly string[];
+  /** Accepted layout names; anything else is dropped */
+  layouts?: readonly string[];
+}
+
+export function encodeUrlState(state: Omit<UrlState, "version">) {
+  return new URLSearchParams({
+    v: String(URL_STATE_VERSION),
+    p: String(state.power),
+    d: String(Number(state.distance.toFixed(3))),
+    u: state.units,
+    t: state.theme,
+    l: state.layout,
+  }).toString();
+}
+
+const finite = (v: string | null) => {
+  if (v == null || v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+};
+
+const oneOf = <T extends string>(v: string | null, allowed?: readonly T[]) =>
+  v != null && v !== "" && (!allowed || allowed.includes(v as T)) ? (v as T) : undefined;
+
+export function parseUrlState(
+  hash: string,
+  options: UrlStateOptions = {}
+): Partial<UrlState> | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (finite(params.get("v")) !== URL_STATE_VERSION) return null;
+
+  const state: Partial<UrlState> = { version: URL_STATE_VERSION };
+  const power = finite(params.get("p"));
+  if (power != null) state.power = clampPower(power, options.maxPower ?? MAX_POWER);
+  const distance = finite(params.get("d"));
+  if (distance != null) state.distance = Math.max(0, distance);
+  state.units = oneOf(params.get("u"), UNIT_SYSTEMS);
+  state.theme = oneOf(params.get("t"), options.themes);
+  state.layout = oneOf(params.get("l"), options.layouts);
+
+  for (const key of Object.keys(state) as (keyof UrlState)[]) {
+    if (state[key] === undefined) delete state[key];
+  }
+  return state;
+}
+
+function applyUrlState(store: DashboardStore, state: Partial<UrlState>) {
+  if (state.power !== undefined) store.setPower(state.power);
+  if (state.distance !== undefined) store.setDistance(state.distance);
+  if (state.units !== undefined) store.setUnits(state.units);
+  if (state.theme !== undefined) store.setTheme(state.theme);
+  if (state.layout !== undefined) store.setLayout(state.layout);
+}
+
+export function persistUrlState(
+  store: DashboardStore,
+  layouts: readonly string[],
+  win: Window = window
+) {
+  const restore = () => {
+    const state = parseUrlState(win.location.hash, {
+      maxPower: store.maxPower,
+      themes: store.themeNames,
+      layouts,
+    });
+    if (state) applyUrlState(store, state);
+  };
+  restore();
+
+  const hash = () =>
+    encodeUrlState({
+      power: store.power,
+      distance: store.distance,
+      units: store.units,
+      theme: store.theme,
+      layout: store.layout,
+    });
+  // replaceState: following the dashboard shouldn't fill the back button's history.
+  const write = (value: string) => win.history.replaceState(win.history.state, "", `#${value}`);
+
+  const dispose = reaction(hash, write, { delay: SAVE_DELAY_MS });
+  write(hash());
+  // replaceState doesn't fire hashchange, so this only sees links pasted or edited by hand.
+  win.addEventListener("hashchange", restore);
+
+  return () => {
+    dispose();
+    win.removeEventListener("hashchange", restore);
+  };
+}
@@ -0,0 +1,16 @@
+import { DashboardConfig } from "./DashboardStore";
+
+/**
+ * Vehicles shown by the comparison view (?compare): the stock hatchback next to a tuned
+ * one with more power, less drag and a longer speed scale.
+ */
+export const COMPARISON_VARIANTS: DashboardConfig[] = [
+  { name: "stock", layout: "comparison" },
+  {
+    name: "tuned",
+    layout: "comparison",
+    maxSpeed: 160,
+    redlineSpeed: 140,
+    vehicle: { maxEnginePower: 34_000, dragCoefficient: 0.28, mass: 1150 },
+  },
+];
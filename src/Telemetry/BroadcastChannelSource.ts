@@ -0,0 +1,52 @@
+/**
+ * BroadcastChannelSource
+ * ------------------------------
+ * Telemetry posted by another tab or window of the same origin, e.g. a
+ * control panel or a second dashboard acting as the driver:
+ *
+ *   new BroadcastChannel("dashboard-telemetry")
+ *     .postMessage({ type: "telemetry", speed: 80, power: 3, distance: 1.2 });
+ *
+ * A channel has no connection of its own, so it reports "connected" as soon as
+ * it is listening; TelemetryLink detects a silent publisher by frame staleness.
+ * Where BroadcastChannel doesn't exist it reports "error" and stays stopped.
+ */
+
+import { parseTelemetryMessage, TelemetrySource, TelemetrySourceListener } from "./TelemetrySource";
+
+export const DEFAULT_CHANNEL = "dashboard-telemetry";
+
+export class BroadcastChannelSource implements TelemetrySource {
+  readonly name = "broadcast";
+
+  private channel: BroadcastChannel | null = null;
+  private listener: TelemetrySourceListener | null = null;
+
+  constructor(readonly channelName = DEFAULT_CHANNEL) {}
+
+  connect(listener: TelemetrySourceListener) {
+    this.disconnect();
+    this.listener = listener;
+    if (typeof BroadcastChannel === "undefined") {
+      listener.onStatus("error");
+      return;
+    }
+    listener.onStatus("connecting");
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (e: MessageEvent) => {
+      const frame = parseTelemetryMessage(e.data);
+      if (frame) this.listener?.onFrame(frame);
+    };
+    listener.onStatus("connected");
+  }
+
+  disconnect() {
+    this.channel?.close();
+    this.channel = null;
+
+    const listener = this.listener;
+    this.listener = null;
+    listener?.onStatus("idle");
+  }
+}
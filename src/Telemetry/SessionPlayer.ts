@@ -0,0 +1,130 @@
+/**
+ * SessionPlayer
+ * ------------------------------
+ * Plays a recorded `TelemetrySession` back into a `DashboardStore`, so the
+ * widgets bound to the store animate exactly as they did live.
+ *
+ * - load(session): takes over the store (inputSource = "replay") and shows the first sample
+ * - play() / pause(): runs or freezes the playback clock (requestAnimationFrame)
+ * - seek(ms): jumps to a position and applies the sample recorded at that time
+ * - setRate(rate): 0.5x / 1x / 2x / 4x playback
+ * - advance(dtMs): moves the playback clock by real-time dtMs (scaled by rate);
+ *   called by the rAF loop, and usable directly for deterministic stepping
+ * - eject(): stops playback and hands the store back to the simulation
+ *
+ * Samples are applied as recorded, never interpolated: the store sees the same
+ * sequence of states the recorder saw.
+ */
+
+import { makeAutoObservable, observable } from "mobx";
+import { DashboardStore } from "../Store/DashboardStore";
+import { sessionDuration, TelemetrySession } from "./TelemetrySession";
+
+export const PLAYBACK_RATES = [0.5, 1, 2, 4] as const;
+export type PlaybackRate = (typeof PLAYBACK_RATES)[number];
+
+export class SessionPlayer {
+  session: TelemetrySession | null = null;
+  playing = false;
+  position = 0;
+  rate: PlaybackRate = 1;
+
+  private applied = -1;
+  private raf: number | null = null;
+  private last: number | null = null;
+
+  constructor(private store: DashboardStore) {
+    makeAutoObservable<SessionPlayer, "applied" | "raf" | "last" | "loop" | "store">(this, {
+      session: observable.ref,
+      applied: false,
+      raf: false,
+      last: false,
+      loop: false,
+      store: false,
+    });
+  }
+
+  get loaded() {
+    return this.session != null;
+  }
+
+  get duration() {
+    return this.session ? sessionDuration(this.session) : 0;
+  }
+
+  get ended() {
+    return this.loaded && this.position >= this.duration;
+  }
+
+  load(session: TelemetrySession) {
+    this.pause();
+    this.session = session;
+    this.store.setInputSource("replay");
+    this.seek(0);
+  }
+
+  play() {
+    if (!this.session || this.playing) return;
+    if (this.ended) this.seek(0);
+    this.playing = true;
+    this.last = null;
+    this.raf = requestAnimationFrame(this.loop);
+  }
+
+  pause() {
+    this.playing = false;
+    if (this.raf != null) cancelAnimationFrame(this.raf);
+    this.raf = null;
+    this.last = null;
+  }
+
+  setRate(rate: PlaybackRate) {
+    if (PLAYBACK_RATES.includes(rate)) this.rate = rate;
+  }
+
+  seek(ms: number) {
+    this.position = Math.min(this.duration, Math.max(0, Number(ms) || 0));
+    this.applied = -1;
+    this.applyAt(this.position);
+  }
+
+  advance(dtMs: number) {
+    if (!this.session) return;
+    this.position = Math.min(this.duration, this.position + dtMs * this.rate);
+    this.applyAt(this.position);
+    if (this.ended) this.pause();
+  }
+
+  eject() {
+    this.pause();
+    this.session = null;
+    this.position = 0;
+    this.applied = -1;
+    this.store.setInputSource("simulation");
+  }
+
+  private loop = (t: number) => {
+    if (!this.playing) return;
+    if (this.last != null) this.advance(t - this.last);
+    this.last = t;
+    if (this.playing) this.raf = requestAnimationFrame(this.loop);
+  };
+
+  private applyAt(position: number) {
+    const samples = this.session?.samples;
+    if (!samples || samples.length === 0) return;
+
+    // Binary search for the last sample recorded at or before `position`.
+    let lo = 0;
+    let hi = samples.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (samples[mid].t <= position) lo = mid;
+      else hi = mid - 1;
+    }
+
+    if (lo === this.applied) return;
+    this.applied = lo;
+    this.store.applySample(samples[lo]);
+  }
+}
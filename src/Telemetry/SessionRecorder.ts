@@ -0,0 +1,71 @@
+/**
+ * SessionRecorder
+ * ------------------------------
+ * Records every state change of a `DashboardStore` into a `TelemetrySession`.
+ *
+ * - start(): begins a new session and subscribes to power/speed/distance.
+ *   Every action that changes one of them (tick, inc, dec, setPower) yields
+ *   exactly one sample, timestamped relative to the start of the session.
+ * - stop(): unsubscribes and returns the finished session.
+ *
+ * `now` is injectable so recordings can be produced deterministically.
+ */
+
+import { comparer, IReactionDisposer, makeAutoObservable, observable, reaction } from "mobx";
+import { DashboardStore } from "../Store/DashboardStore";
+import { TelemetrySample, TelemetrySession } from "./TelemetrySession";
+
+export class SessionRecorder {
+  recording = false;
+  session: TelemetrySession | null = null;
+  sampleCount = 0;
+
+  private dispose?: IReactionDisposer;
+  private t0 = 0;
+
+  constructor(
+    private store: DashboardStore,
+    private now: () => number = () => performance.now()
+  ) {
+    makeAutoObservable<SessionRecorder, "dispose" | "t0" | "store" | "now">(this, {
+      session: observable.ref,
+      dispose: false,
+      t0: false,
+      store: false,
+      now: false,
+    });
+  }
+
+  start() {
+    this.dispose?.();
+    this.t0 = this.now();
+    this.session = { version: 1, startedAt: Date.now(), samples: [] };
+    this.sampleCount = 0;
+    this.recording = true;
+
+    this.dispose = reaction(
+      () => ({
+        power: this.store.power,
+        speed: this.store.speed,
+        distance: this.store.distance,
+      }),
+      (state) => this.push(state),
+      { fireImmediately: true, equals: comparer.structural }
+    );
+  }
+
+  stop() {
+    this.dispose?.();
+    this.dispose = undefined;
+    this.recording = false;
+    return this.session;
+  }
+
+  private push(state: Omit<TelemetrySample, "t">) {
+    if (!this.session) return;
+    // The session is held by reference: at 60 fps a deeply observable array would
+    // wrap thousands of sample objects for no benefit, so only the count is observed.
+    this.session.samples.push({ t: this.now() - this.t0, ...state });
+    this.sampleCount = this.session.samples.length;
+  }
+}
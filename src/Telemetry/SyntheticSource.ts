@@ -0,0 +1,77 @@
+/**
+ * SyntheticSource
+ * ------------------------------
+ * Built-in telemetry generator: drives its own copy of the vehicle model
+ * through a repeating throttle profile (pull away, cruise, overtake, coast)
+ * and emits a frame every `intervalMs`. Useful for demos and for exercising
+ * the remote-source path without any server.
+ */
+
+import { MAX_POWER } from "../Store/DashboardStore";
+import { DEFAULT_VEHICLE, integrate, VehicleParams } from "../Store/VehicleModel";
+import { TelemetrySource, TelemetrySourceListener } from "./TelemetrySource";
+
+/** [duration in s, throttle 0–1] */
+const PROFILE: [number, number][] = [
+  [12, 0.8],
+  [15, 0.45],
+  [6, 1],
+  [10, 0.5],
+  [12, 0],
+];
+const PROFILE_LENGTH = PROFILE.reduce((sum, [d]) => sum + d, 0);
+
+export function syntheticThrottle(elapsedSec: number) {
+  let t = elapsedSec % PROFILE_LENGTH;
+  for (const [duration, throttle] of PROFILE) {
+    if (t < duration) return throttle;
+    t -= duration;
+  }
+  return 0;
+}
+
+export class SyntheticSource implements TelemetrySource {
+  readonly name = "synthetic";
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private listener: TelemetrySourceListener | null = null;
+  private elapsed = 0;
+  private velocity = 0;
+  private travelled = 0;
+
+  constructor(
+    readonly intervalMs = 50,
+    private vehicle: VehicleParams = DEFAULT_VEHICLE
+  ) {}
+
+  connect(listener: TelemetrySourceListener) {
+    this.disconnect();
+    this.listener = listener;
+    listener.onStatus("connected");
+    this.timer = setInterval(() => this.step(), this.intervalMs);
+  }
+
+  disconnect() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+
+    const listener = this.listener;
+    this.listener = null;
+    listener?.onStatus("idle");
+  }
+
+  private step() {
+    const dt = this.intervalMs / 1000;
+    const throttle = syntheticThrottle(this.elapsed);
+    const next = integrate(this.velocity, throttle, dt, this.vehicle);
+    this.elapsed += dt;
+    this.velocity = next.velocity;
+    this.travelled += next.distance;
+
+    this.listener?.onFrame({
+      power: throttle * MAX_POWER,
+      speed: this.velocity * 3.6,
+      distance: this.travelled / 1000,
+    });
+  }
+}
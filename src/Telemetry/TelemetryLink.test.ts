@@ -0,0 +1,42 @@
+import { DashboardStore } from "../Store/DashboardStore";
+import { BroadcastChannelSource } from "./BroadcastChannelSource";
+import { TelemetryLink } from "./TelemetryLink";
+
+const { BroadcastChannel } = globalThis as { BroadcastChannel?: unknown };
+
+afterEach(() => {
+  Object.assign(globalThis, { BroadcastChannel });
+});
+
+function link() {
+  const store = new DashboardStore({ odometerKey: null });
+  return { store, link: new TelemetryLink(store) };
+}
+
+test("a browser without BroadcastChannel gets an error status, not an exception", () => {
+  Object.assign(globalThis, { BroadcastChannel: undefined });
+  const { store, link: telemetry } = link();
+
+  expect(() => telemetry.attach(new BroadcastChannelSource())).not.toThrow();
+  expect(telemetry.status).toBe("error");
+  expect(store.inputSource).toBe("simulation");
+
+  telemetry.detach();
+  expect(telemetry.status).toBe("idle");
+});
+
+test("a source that throws while connecting leaves the store on the simulation", () => {
+  const { store, link: telemetry } = link();
+  const source = {
+    name: "broken",
+    connect() {
+      throw new Error("unsupported");
+    },
+    disconnect: jest.fn(),
+  };
+
+  expect(() => telemetry.attach(source)).not.toThrow();
+  expect(telemetry.status).toBe("error");
+  expect(telemetry.sourceName).toBe("broken");
+  expect(store.inputSource).toBe("simulation");
+});
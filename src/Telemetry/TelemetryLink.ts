@@ -0,0 +1,89 @@
+/**
+ * TelemetryLink
+ * ------------------------------
+ * Connects one `TelemetrySource` at a time to a `DashboardStore`.
+ *
+ * - While frames arrive, the store is driven remotely (inputSource = "remote")
+ *   and every frame is applied with store.applySample().
+ * - When the source drops (any status other than "connected") or goes quiet for
+ *   longer than `staleAfterMs`, the store falls back to the local simulation,
+ *   which continues from the last received state.
+ * - A running replay always wins: frames are ignored while inputSource is "replay".
+ * - A source that throws while connecting leaves the link in "error", on the
+ *   local simulation.
+ *
+ * `status` and `sourceName` are observable so the dashboard can show them.
+ */
+
+import { makeAutoObservable } from "mobx";
+import { DashboardStore } from "../Store/DashboardStore";
+import { SourceStatus, TelemetryFrame, TelemetrySource } from "./TelemetrySource";
+
+export type LinkStatus = SourceStatus | "stale";
+
+export class TelemetryLink {
+  status: LinkStatus = "idle";
+  sourceName: string | null = null;
+
+  private source: TelemetrySource | null = null;
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private store: DashboardStore,
+    readonly staleAfterMs = 2000
+  ) {
+    makeAutoObservable<TelemetryLink, "source" | "staleTimer" | "store">(this, {
+      source: false,
+      staleTimer: false,
+      store: false,
+    });
+  }
+
+  attach(source: TelemetrySource) {
+    this.detach();
+    this.source = source;
+    this.sourceName = source.name;
+    try {
+      source.connect({
+        onFrame: (frame) => this.receive(frame),
+        onStatus: (status) => this.setStatus(status),
+      });
+    } catch {
+      this.setStatus("error");
+    }
+  }
+
+  detach() {
+    const source = this.source;
+    this.source = null;
+    source?.disconnect();
+    this.sourceName = null;
+    this.setStatus("idle");
+  }
+
+  private receive(frame: TelemetryFrame) {
+    if (this.source == null) return;
+    this.armStaleTimer();
+    if (this.status === "stale") this.status = "connected";
+    if (this.store.inputSource === "replay") return;
+    if (this.store.inputSource !== "remote") this.store.setInputSource("remote");
+    this.store.applySample(frame);
+  }
+
+  private setStatus(status: LinkStatus) {
+    this.status = status;
+    if (status === "connected") this.armStaleTimer();
+    else this.fallBack();
+  }
+
+  private armStaleTimer() {
+    if (this.staleTimer) clearTimeout(this.staleTimer);
+    this.staleTimer = setTimeout(() => this.setStatus("stale"), this.staleAfterMs);
+  }
+
+  private fallBack() {
+    if (this.staleTimer) clearTimeout(this.staleTimer);
+    this.staleTimer = null;
+    if (this.store.inputSource === "remote") this.store.setInputSource("simulation");
+  }
+}
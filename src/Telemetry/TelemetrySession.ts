@@ -0,0 +1,57 @@
+/**
+ * TelemetrySession
+ * ------------------------------
+ * Shared shapes for recorded dashboard telemetry.
+ *
+ * - TelemetrySample: one snapshot of the store, as the widgets see it
+ *   • t: milliseconds since the session started
+ *   • power: engine power level (0–MAX_POWER)
+ *   • speed: km/h
+ *   • distance: km
+ *
+ * - TelemetrySession: a versioned list of samples, ordered by `t`, that can be
+ *   saved as JSON (bug reports, demo scenarios) and loaded back for replay.
+ */
+
+export interface TelemetrySample {
+  t: number;
+  power: number;
+  speed: number;
+  distance: number;
+}
+
+export interface TelemetrySession {
+  version: 1;
+  startedAt: number;
+  samples: TelemetrySample[];
+}
+
+export function sessionDuration(session: TelemetrySession) {
+  const last = session.samples[session.samples.length - 1];
+  return last ? last.t : 0;
+}
+
+/**
+ * Parses a session saved with JSON.stringify. Throws on anything that isn't a
+ * version 1 session so a bad file never reaches the store.
+ */
+export function parseSession(json: string): TelemetrySession {
+  const data = JSON.parse(json);
+  if (!data || data.version !== 1 || !Array.isArray(data.samples)) {
+    throw new Error("Not a telemetry session (expected version 1 with samples)");
+  }
+  const samples: TelemetrySample[] = data.samples.map((s: Partial<TelemetrySample>, i: number) => {
+    const sample = {
+      t: Number(s?.t),
+      power: Number(s?.power),
+      speed: Number(s?.speed),
+      distance: Number(s?.distance),
+    };
+    if (!Object.values(sample).every(Number.isFinite)) {
+      throw new Error(`Telemetry sample #${i} has non-numeric fields`);
+    }
+    return sample;
+  });
+  samples.sort((a, b) => a.t - b.t);
+  return { version: 1, startedAt: Number(data.startedAt) || 0, samples };
+}
@@ -0,0 +1,59 @@
+/**
+ * TelemetrySource
+ * ------------------------------
+ * Contract for anything that can feed live vehicle data into the dashboard
+ * from outside the local simulation (hardware bridge, another tab, a generator).
+ *
+ * - connect(listener): starts producing frames; the source reports its transport
+ *   state through listener.onStatus and every decoded frame through listener.onFrame
+ * - disconnect(): stops for good (no reconnect) and reports "idle"
+ * - a source that can't run in this browser reports "error" instead of throwing
+ *
+ * Wire protocol (WebSocket text messages and BroadcastChannel payloads alike):
+ *
+ *   { "type": "telemetry", "speed": 87.5, "power": 3.2, "distance": 12.034 }
+ *
+ *   • speed: km/h, power: dashboard power level (0–MAX_POWER), distance: km
+ *   • optional "ts" (epoch ms) is accepted and ignored
+ *   • any other "type" is ignored, so a server may add e.g. heartbeat messages
+ */
+
+import { TelemetrySample } from "./TelemetrySession";
+
+export type TelemetryFrame = Omit<TelemetrySample, "t">;
+
+export type SourceStatus = "idle" | "connecting" | "connected" | "reconnecting" | "error";
+
+export interface TelemetrySourceListener {
+  onFrame(frame: TelemetryFrame): void;
+  onStatus(status: SourceStatus): void;
+}
+
+export interface TelemetrySource {
+  readonly name: string;
+  connect(listener: TelemetrySourceListener): void;
+  disconnect(): void;
+}
+
+/**
+ * Decodes one protocol message (a JSON string or an already parsed object).
+ * Returns null for anything that is not a well-formed telemetry frame.
+ */
+export function parseTelemetryMessage(data: unknown): TelemetryFrame | null {
+  let msg = data;
+  if (typeof msg === "string") {
+    try {
+      msg = JSON.parse(msg);
+    } catch {
+      return null;
+    }
+  }
+  if (!msg || typeof msg !== "object") return null;
+
+  const { type, speed, power, distance } = msg as Record<string, unknown>;
+  if (type !== "telemetry") return null;
+
+  const frame = { speed: Number(speed), power: Number(power), distance: Number(distance) };
+  if (!Object.values(frame).every(Number.isFinite)) return null;
+  return frame;
+}
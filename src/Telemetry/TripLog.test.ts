@@ -0,0 +1,39 @@
+import { DashboardStore } from "../Store/DashboardStore";
+import { powerBands, summarizeTrip, tripToCsv } from "./TripLog";
+import { TripLogger } from "./TripLogger";
+
+const sample = (t: number, power: number) => ({ t, power, speed: 0, distance: 0 });
+
+test("power bands follow the top of the power scale", () => {
+  expect(powerBands(6)).toHaveLength(6);
+  expect(powerBands(8).map((b) => b.to)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  expect(powerBands(2.5)).toEqual([
+    { from: 0, to: 1 },
+    { from: 1, to: 2 },
+    { from: 2, to: 2.5 },
+  ]);
+});
+
+test("time at full power lands in the top band", () => {
+  const { powerBands: bands } = summarizeTrip(
+    [sample(0, 8), sample(2000, 7.5), sample(3000, 0)],
+    8
+  );
+  expect(bands).toHaveLength(8);
+  expect(bands[7].seconds).toBe(3);
+});
+
+test("a logger takes its bands from the store's maxPower", () => {
+  const store = new DashboardStore({ odometerKey: null, maxPower: 8 });
+  const logger = new TripLogger(store);
+  store.setPower(8);
+  logger.start();
+  for (let i = 0; i < 120; i++) store.clock.stepOnce(); // 2 s
+  logger.stop();
+
+  expect(logger.log.maxPower).toBe(8);
+  const top = logger.summary.powerBands[7];
+  expect(top).toMatchObject({ from: 7, to: 8 });
+  expect(top.seconds).toBeCloseTo(2);
+  expect(tripToCsv(logger.log)).toContain("power_7_8_s,2");
+});
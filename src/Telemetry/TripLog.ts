@@ -0,0 +1,109 @@
+/**
+ * TripLog
+ * ------------------------------
+ * A sampled trip and the pure functions that summarize and export it.
+ *
+ * - TripLog: a versioned list of `TelemetrySample`s, ordered by `t`; `t` is ms since the
+ *   trip started and `distance` is km since the trip started. Units are metric whatever
+ *   the dashboard shows. `maxPower` is the store's when the trip started.
+ * - summarizeTrip(samples, maxPower): duration, distance, average/max speed and the time
+ *   spent in each power band, one per unit of power up to maxPower. Samples are taken as held until the next one, so the time between
+ *   two samples counts towards the first sample's power band.
+ * - tripToJson(log) / tripToCsv(log): export formats, both with the summary included.
+ *   The CSV holds one row per sample, then a blank line and a `metric,value` section with
+ *   the summary.
+ *
+ * TripLogger (see TripLogger.ts) fills a TripLog from a running store.
+ */
+
+import { MAX_POWER } from "../Store/DashboardStore";
+import { TelemetrySample } from "./TelemetrySession";
+
+export interface TripLog {
+  version: 1;
+  /** Wall-clock start of the trip (ms since epoch) */
+  startedAt: number;
+  /** Top of the power scale the power bands run up to */
+  maxPower: number;
+  samples: TelemetrySample[];
+}
+
+export interface PowerBandTime {
+  /** Band covers from ≤ power < to (the top band includes maxPower) */
+  from: number;
+  to: number;
+  /** Time spent in the band, in s */
+  seconds: number;
+}
+
+export interface TripSummary {
+  /** s */
+  duration: number;
+  /** km */
+  distance: number;
+  /** km/h, distance over duration */
+  averageSpeed: number;
+  /** km/h */
+  maxSpeed: number;
+  powerBands: PowerBandTime[];
+}
+
+/** One band per unit of power: 0–1, 1–2, … up to maxPower (the last one may be shorter) */
+export function powerBands(maxPower: number) {
+  return Array.from({ length: Math.max(1, Math.ceil(maxPower)) }, (_, i) => ({
+    from: i,
+    to: Math.min(i + 1, maxPower),
+  }));
+}
+
+export function summarizeTrip(samples: TelemetrySample[], maxPower = MAX_POWER): TripSummary {
+  const bands = powerBands(maxPower).map((band) => ({ ...band, seconds: 0 }));
+  const bandIndex = (power: number) => Math.min(bands.length - 1, Math.max(0, Math.floor(power)));
+  if (samples.length === 0) {
+    return { duration: 0, distance: 0, averageSpeed: 0, maxSpeed: 0, powerBands: bands };
+  }
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  let maxSpeed = 0;
+  samples.forEach((s, i) => {
+    maxSpeed = Math.max(maxSpeed, s.speed);
+    const next = samples[i + 1];
+    if (next) bands[bandIndex(s.power)].seconds += (next.t - s.t) / 1000;
+  });
+
+  const duration = (last.t - first.t) / 1000;
+  const distance = last.distance - first.distance;
+  return {
+    duration,
+    distance,
+    averageSpeed: duration > 0 ? distance / (duration / 3600) : 0,
+    maxSpeed,
+    powerBands: bands,
+  };
+}
+
+export function tripToJson(log: TripLog) {
+  return JSON.stringify({ ...log, summary: summarizeTrip(log.samples, log.maxPower) }, null, 2);
+}
+
+const round = (n: number, digits: number) => String(Number(n.toFixed(digits)));
+
+export function tripToCsv(log: TripLog) {
+  const summary = summarizeTrip(log.samples, log.maxPower);
+  const rows = [
+    "t_s,speed_kmh,power,distance_km",
+    ...log.samples.map((s) =>
+      [round(s.t / 1000, 3), round(s.speed, 2), round(s.power, 2), round(s.distance, 4)].join(",")
+    ),
+    "",
+    "metric,value",
+    `started_at,${new Date(log.startedAt).toISOString()}`,
+    `duration_s,${round(summary.duration, 3)}`,
+    `distance_km,${round(summary.distance, 4)}`,
+    `average_speed_kmh,${round(summary.averageSpeed, 2)}`,
+    `max_speed_kmh,${round(summary.maxSpeed, 2)}`,
+    ...summary.powerBands.map((b) => `power_${b.from}_${b.to}_s,${round(b.seconds, 3)}`),
+  ];
+  return rows.join("\n") + "\n";
+}
@@ -0,0 +1,108 @@
+/**
+ * TripLogger
+ * ------------------------------
+ * Samples a `DashboardStore` into a `TripLog` at a fixed interval while it's driven.
+ *
+ * - start(): begins a new trip and takes a sample every `intervalMs` (default 1 s) of
+ *   simulation time, i.e. store.clock.simTime: pause and time scale are accounted for, and
+ *   a backgrounded tab catching up still gets a sample per interval. The trip's power
+ *   bands run up to the store's maxPower at that point.
+ * - stop(): takes a last sample (so the trip ends where the store is now) and stops.
+ * - log / summary: the trip so far, ready for tripToCsv / tripToJson (see TripLog.ts).
+ *
+ * Samples are whatever drives the store (simulation, replay or a remote source).
+ */
+
+import { IReactionDisposer, makeAutoObservable, reaction } from "mobx";
+import { DashboardStore } from "../Store/DashboardStore";
+import { TelemetrySample } from "./TelemetrySession";
+import { summarizeTrip, TripLog } from "./TripLog";
+
+// Same reason as the clock: steps of 1000/60 ms don't add up to whole seconds exactly.
+const EPSILON = 1e-6;
+
+export class TripLogger {
+  logging = false;
+  startedAt = 0;
+  maxPower: number;
+  sampleCount = 0;
+
+  private samples: TelemetrySample[] = [];
+  private dispose?: IReactionDisposer;
+  private t0 = 0;
+  private d0 = 0;
+  private lastSampleAt = 0;
+
+  constructor(
+    private store: DashboardStore,
+    readonly intervalMs = 1000
+  ) {
+    this.maxPower = store.maxPower;
+    makeAutoObservable<TripLogger, "samples" | "dispose" | "t0" | "d0" | "lastSampleAt" | "store">(
+      this,
+      {
+        intervalMs: false,
+        samples: false,
+        dispose: false,
+        t0: false,
+        d0: false,
+        lastSampleAt: false,
+        store: false,
+      }
+    );
+  }
+
+  get log(): TripLog {
+    return {
+      version: 1,
+      startedAt: this.startedAt,
+      maxPower: this.maxPower,
+      // Reading sampleCount keeps this (and summary) up to date as samples come in.
+      samples: this.samples.slice(0, this.sampleCount),
+    };
+  }
+
+  get summary() {
+    return summarizeTrip(this.log.samples, this.maxPower);
+  }
+
+  start() {
+    this.dispose?.();
+    this.startedAt = Date.now();
+    this.maxPower = this.store.maxPower;
+    this.t0 = this.store.clock.simTime;
+    this.d0 = this.store.distance;
+    this.samples = [];
+    this.sampleCount = 0;
+    this.logging = true;
+
+    this.dispose = reaction(
+      () => this.store.clock.simTime,
+      (time) => {
+        if (time - this.lastSampleAt >= this.intervalMs - EPSILON) this.sample();
+      }
+    );
+    this.sample();
+  }
+
+  stop() {
+    if (!this.logging) return;
+    if (this.store.clock.simTime > this.lastSampleAt) this.sample();
+    this.dispose?.();
+    this.dispose = undefined;
+    this.logging = false;
+  }
+
+  private sample() {
+    const time = this.store.clock.simTime;
+    this.lastSampleAt = time;
+    // Held by reference like SessionRecorder's session: only the count is observed.
+    this.samples.push({
+      t: time - this.t0,
+      power: this.store.power,
+      speed: this.store.speed,
+      distance: this.store.distance - this.d0,
+    });
+    this.sampleCount = this.samples.length;
+  }
+}
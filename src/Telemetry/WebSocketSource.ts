@@ -0,0 +1,109 @@
+/**
+ * WebSocketSource
+ * ------------------------------
+ * Telemetry over a WebSocket speaking the JSON protocol from TelemetrySource.
+ *
+ * - Reconnects with exponential backoff (minDelayMs × 2ⁿ, capped at maxDelayMs)
+ *   whenever the socket closes or fails to open; the delay resets after a
+ *   successful connection.
+ * - Malformed messages are dropped silently.
+ * - `createSocket` is injectable so the reconnect logic can run without a network.
+ */
+
+import { parseTelemetryMessage, TelemetrySource, TelemetrySourceListener } from "./TelemetrySource";
+
+export interface WebSocketSourceOptions {
+  minDelayMs?: number;
+  maxDelayMs?: number;
+  createSocket?: (url: string) => WebSocket;
+}
+
+export class WebSocketSource implements TelemetrySource {
+  readonly name = "websocket";
+
+  private socket: WebSocket | null = null;
+  private listener: TelemetrySourceListener | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+
+  private readonly minDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly createSocket: (url: string) => WebSocket;
+
+  constructor(
+    readonly url: string,
+    options: WebSocketSourceOptions = {}
+  ) {
+    this.minDelayMs = options.minDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 10_000;
+    this.createSocket = options.createSocket ?? ((u) => new WebSocket(u));
+  }
+
+  connect(listener: TelemetrySourceListener) {
+    this.disconnect();
+    this.listener = listener;
+    this.open();
+  }
+
+  disconnect() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.attempt = 0;
+
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onclose = socket.onerror = null;
+      socket.close();
+    }
+
+    const listener = this.listener;
+    this.listener = null;
+    listener?.onStatus("idle");
+  }
+
+  /** Delay before the next reconnect attempt. */
+  get backoffMs() {
+    return Math.min(this.maxDelayMs, this.minDelayMs * 2 ** this.attempt);
+  }
+
+  private open() {
+    if (!this.listener) return;
+    this.listener.onStatus(this.attempt === 0 ? "connecting" : "reconnecting");
+
+    let socket: WebSocket;
+    try {
+      socket = this.createSocket(this.url);
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.attempt = 0;
+      this.listener?.onStatus("connected");
+    };
+    socket.onmessage = (e: MessageEvent) => {
+      const frame = parseTelemetryMessage(e.data);
+      if (frame) this.listener?.onFrame(frame);
+    };
+    // onerror is always followed by onclose, which owns the reconnect.
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (!this.listener) return;
+    this.listener.onStatus("reconnecting");
+    const delay = this.backoffMs;
+    this.attempt++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.open();
+    }, delay);
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Triggers a browser download of `text` as a file, without a server round trip.
+ */
+export function downloadText(filename: string, text: string, mime = "application/json") {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,110 @@
+/**
+ * Themes
+ * ------------------------------
+ * One palette shared by page CSS, shadow-DOM widget styles and Pixi drawing.
+ *
+ * - A `Theme` maps tokens to CSS colors. `applyTheme()` writes them as custom
+ *   properties (`--dash-<token>`, e.g. --dash-panel-border) on the document root;
+ *   custom properties inherit into shadow roots, so widget CSS just uses var().
+ * - Pixi can't read CSS, so Pixi widgets call `themeColor(el, token)` (the computed
+ *   custom property on the element, falling back to the night preset) and repaint
+ *   on THEME_CHANGE_EVENT, which `applyTheme()` dispatches on window.
+ * - Presets: "night" (the original look) and "day". User themes are partial
+ *   overrides of a preset, see `DashboardStore.addTheme`.
+ */
+
+export interface Theme {
+  /** Page background around the cluster */
+  background: string;
+  text: string;
+  textMuted: string;
+  /** Cluster panel */
+  panel: string;
+  panelBorder: string;
+  /** Cards and bars: distance tracker, settings, replay, telemetry */
+  surface: string;
+  surfaceBorder: string;
+  /** Outline of bar gauges and cards */
+  outline: string;
+  /** Dial outer arc */
+  dialArc: string;
+  /** Dial progress arc, hub, active controls */
+  accent: string;
+  /** Dial ticks, tick labels and unit */
+  tick: string;
+  needle: string;
+  /** <engine-power> fill */
+  power: string;
+  /** <fuel-gauge> fill */
+  ok: string;
+  info: string;
+  caution: string;
+  /** Redline, alerts, low fuel, critical warnings */
+  danger: string;
+}
+
+export type ThemeToken = keyof Theme;
+
+export const NIGHT_THEME: Theme = {
+  background: "#282c34",
+  text: "#ffffff",
+  textMuted: "#9ca3af",
+  panel: "#000000",
+  panelBorder: "#423b3b",
+  surface: "#1a1823",
+  surfaceBorder: "#39354a",
+  outline: "#ffffff",
+  dialArc: "#1fffff",
+  accent: "#3a5eef",
+  tick: "#e5e7eb",
+  needle: "#ffffff",
+  power: "#3b82f6",
+  ok: "#22c55e",
+  info: "#3b82f6",
+  caution: "#f59e0b",
+  danger: "#ef4444",
+};
+
+export const DAY_THEME: Theme = {
+  background: "#e5e7eb",
+  text: "#111827",
+  textMuted: "#6b7280",
+  panel: "#f9fafb",
+  panelBorder: "#d1d5db",
+  surface: "#ffffff",
+  surfaceBorder: "#d1d5db",
+  outline: "#374151",
+  dialArc: "#0e7490",
+  accent: "#2563eb",
+  tick: "#374151",
+  needle: "#111827",
+  power: "#2563eb",
+  ok: "#16a34a",
+  info: "#2563eb",
+  caution: "#d97706",
+  danger: "#dc2626",
+};
+
+export const PRESET_THEMES: Record<string, Theme> = { night: NIGHT_THEME, day: DAY_THEME };
+
+/** Theme picked by "auto" for each `prefers-color-scheme`. */
+export const AUTO_THEMES = { dark: "night", light: "day" } as const;
+export type ColorScheme = keyof typeof AUTO_THEMES;
+
+export const THEME_CHANGE_EVENT = "dashboard-theme-change";
+
+export const themeVar = (token: ThemeToken) =>
+  `--dash-${token.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+
+export function applyTheme(theme: Theme, root: HTMLElement = document.documentElement) {
+  for (const token of Object.keys(theme) as ThemeToken[]) {
+    root.style.setProperty(themeVar(token), theme[token]);
+  }
+  window.dispatchEvent(new Event(THEME_CHANGE_EVENT));
+}
+
+/** Current value of a theme token as seen by `el` (Pixi accepts CSS color strings). */
+export function themeColor(el: Element, token: ThemeToken) {
+  const value = getComputedStyle(el).getPropertyValue(themeVar(token)).trim();
+  return value || NIGHT_THEME[token];
+}
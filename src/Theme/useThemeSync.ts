@@ -0,0 +1,25 @@
+import { autorun } from "mobx";
+import { useEffect } from "react";
+import { DashboardStore } from "../Store/DashboardStore";
+import { applyTheme } from "./theme";
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Keeps the document's theme custom properties in sync with `store.palette`, and
+ * feeds the OS color scheme to the store for the "auto" theme.
+ */
+export function useThemeSync(store: DashboardStore) {
+  useEffect(() => {
+    const media = window.matchMedia?.(DARK_QUERY);
+    const onScheme = () => store.setColorScheme(media?.matches === false ? "light" : "dark");
+    onScheme();
+    media?.addEventListener("change", onScheme);
+
+    const dispose = autorun(() => applyTheme(store.palette));
+    return () => {
+      dispose();
+      media?.removeEventListener("change", onScheme);
+    };
+  }, [store]);
+}
@@ -0,0 +1,159 @@
+/**
+ * WarningMonitor
+ * ------------------------------
+ * Evaluates `WarningRule`s against a `DashboardStore` and keeps the active
+ * warnings and their history. Owned by the store (`store.warnings`).
+ *
+ * - update(dtMs): evaluates every rule once; store.advance() calls it every clock step
+ *   whatever drives the store (simulation, replay or remote telemetry)
+ * - registerRule(rule): adds a rule, replacing one with the same id; returns a disposer
+ * - acknowledge(id) / acknowledgeAll(): confirms warnings. An acknowledged warning
+ *   stops blinking and, once its condition has cleared, goes away; a latched
+ *   warning (condition gone, latching rule) stays until acknowledged.
+ *
+ * - State:
+ *   • active: warnings currently shown, by rule id
+ *   • history: raise/clear/acknowledge record, newest first, capped at HISTORY_LIMIT
+ *
+ * - Computed:
+ *   • list: active warnings, most severe (then oldest) first
+ *   • highestSeverity: severity of the worst active warning, or null
+ *   • isActive(id): whether a rule's warning is up
+ */
+
+import { makeAutoObservable, observable } from "mobx";
+import type { DashboardStore } from "../Store/DashboardStore";
+import {
+  createDefaultRules,
+  SEVERITY_RANK,
+  WarningIcon,
+  WarningRule,
+  WarningSeverity,
+} from "./rules";
+
+export const HISTORY_LIMIT = 50;
+
+export interface ActiveWarning {
+  id: string;
+  label: string;
+  severity: WarningSeverity;
+  icon: WarningIcon;
+  /** When it was raised (ms, from the monitor's clock) */
+  since: number;
+  /** Condition no longer holds but the rule latches */
+  latched: boolean;
+  acknowledged: boolean;
+}
+
+export interface WarningEvent {
+  id: string;
+  label: string;
+  severity: WarningSeverity;
+  raisedAt: number;
+  clearedAt: number | null;
+  acknowledgedAt: number | null;
+}
+
+export class WarningMonitor {
+  active = new Map<string, ActiveWarning>();
+  history: WarningEvent[] = [];
+
+  private rules = new Map<string, WarningRule>();
+
+  constructor(
+    private store: DashboardStore,
+    rules: WarningRule[] = createDefaultRules(),
+    private now: () => number = Date.now
+  ) {
+    makeAutoObservable<WarningMonitor, "rules" | "store" | "now">(this, {
+      history: observable.shallow,
+      rules: false,
+      store: false,
+      now: false,
+    });
+    rules.forEach((rule) => this.rules.set(rule.id, rule));
+  }
+
+  registerRule(rule: WarningRule) {
+    this.rules.set(rule.id, rule);
+    this.clear(rule.id);
+    return () => {
+      if (this.rules.get(rule.id) !== rule) return;
+      this.rules.delete(rule.id);
+      this.clear(rule.id);
+    };
+  }
+
+  update(dtMs: number) {
+    for (const rule of this.rules.values()) {
+      const holds = rule.evaluate(this.store, dtMs);
+      const current = this.active.get(rule.id);
+      if (holds) {
+        if (!current) this.raise(rule);
+        else if (current.latched) current.latched = false;
+      } else if (current && !current.latched) {
+        if (rule.latching && !current.acknowledged) current.latched = true;
+        else this.clear(rule.id);
+      }
+    }
+  }
+
+  acknowledge(id: string) {
+    const warning = this.active.get(id);
+    if (!warning || warning.acknowledged) return;
+    warning.acknowledged = true;
+    this.updateEvent(id, { acknowledgedAt: this.now() });
+    if (warning.latched) this.clear(id);
+  }
+
+  acknowledgeAll() {
+    [...this.active.keys()].forEach((id) => this.acknowledge(id));
+  }
+
+  isActive(id: string) {
+    return this.active.has(id);
+  }
+
+  get list() {
+    return [...this.active.values()].sort(
+      (a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || a.since - b.since
+    );
+  }
+
+  get highestSeverity(): WarningSeverity | null {
+    return this.list[0]?.severity ?? null;
+  }
+
+  private raise(rule: WarningRule) {
+    const since = this.now();
+    this.active.set(rule.id, {
+      id: rule.id,
+      label: rule.label,
+      severity: rule.severity,
+      icon: rule.icon ?? "generic",
+      since,
+      latched: false,
+      acknowledged: false,
+    });
+    this.history.unshift({
+      id: rule.id,
+      label: rule.label,
+      severity: rule.severity,
+      raisedAt: since,
+      clearedAt: null,
+      acknowledgedAt: null,
+    });
+    if (this.history.length > HISTORY_LIMIT) this.history.length = HISTORY_LIMIT;
+  }
+
+  private clear(id: string) {
+    if (!this.active.delete(id)) return;
+    this.updateEvent(id, { clearedAt: this.now() });
+  }
+
+  /** History entries are plain objects (shallow history), so changes replace the entry. */
+  private updateEvent(id: string, patch: Partial<WarningEvent>) {
+    const i = this.history.findIndex((e) => e.id === id && e.clearedAt == null);
+    if (i >= 0) this.history[i] = { ...this.history[i], ...patch };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Warning rules
+ * ------------------------------
+ * A rule is a named condition evaluated against the store by `WarningMonitor`.
+ * Rules may keep their own state (timers, previous values), so the factories
+ * below return a fresh rule per monitor.
+ *
+ * - Severity: "info" < "warning" < "critical"; critical lights blink until acknowledged
+ * - latching: the warning stays up after the condition clears, until acknowledged
+ * - icon: one of WARNING_ICONS, drawn by <warning-lights>
+ *
+ * - Built-in rules:
+ *   • overspeedRule({ limit }): speed above `limit` km/h (critical)
+ *   • sustainedPowerRule({ threshold, forMs }): throttle at or above `threshold` (0–1)
+ *     for longer than `forMs` (warning)
+ *   • suddenDecelRule({ decel }): slowing down harder than `decel` m/s² (warning, latching)
+ */
+
+import type { DashboardStore } from "../Store/DashboardStore";
+
+export type WarningSeverity = "info" | "warning" | "critical";
+
+export const SEVERITY_RANK: Record<WarningSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+export const WARNING_ICONS = ["overspeed", "engine", "brake", "fuel", "generic"] as const;
+export type WarningIcon = (typeof WARNING_ICONS)[number];
+
+export interface WarningRule {
+  id: string;
+  label: string;
+  severity: WarningSeverity;
+  icon?: WarningIcon;
+  latching?: boolean;
+  /** True while the warning condition holds; dtMs is the time since the previous evaluation. */
+  evaluate(store: DashboardStore, dtMs: number): boolean;
+}
+
+export function overspeedRule({ limit = 110 }: { limit?: number } = {}): WarningRule {
+  return {
+    id: "overspeed",
+    label: `Over ${limit} km/h`,
+    severity: "critical",
+    icon: "overspeed",
+    evaluate: (store) => store.speed > limit,
+  };
+}
+
+export function sustainedPowerRule({
+  threshold = 0.95,
+  forMs = 10_000,
+}: { threshold?: number; forMs?: number } = {}): WarningRule {
+  let heldMs = 0;
+  return {
+    id: "sustained-power",
+    label: "Sustained full power",
+    severity: "warning",
+    icon: "engine",
+    evaluate: (store, dtMs) => {
+      heldMs = store.throttle >= threshold ? heldMs + dtMs : 0;
+      return heldMs > forMs;
+    },
+  };
+}
+
+export function suddenDecelRule({ decel = 6 }: { decel?: number } = {}): WarningRule {
+  let previous: number | null = null;
+  return {
+    id: "sudden-decel",
+    label: "Sudden deceleration",
+    severity: "warning",
+    icon: "brake",
+    latching: true,
+    evaluate: (store, dtMs) => {
+      const last = previous;
+      previous = store.velocity;
+      if (last == null || dtMs <= 0) return false;
+      return (last - store.velocity) / (dtMs / 1000) > decel;
+    },
+  };
+}
+
+export function createDefaultRules(): WarningRule[] {
+  return [overspeedRule(), sustainedPowerRule(), suddenDecelRule()];
+}
@@ -0,0 +1,182 @@
+import "./distance-tracker.element";
+import "./engine-power.element";
+import "./engine-rpm.element";
+import "./engine-speed.element";
+
+type ValueElement = HTMLElement & Record<string, unknown>;
+
+function mount(tag: string, attributes: Record<string, string> = {}) {
+  const el = document.createElement(tag) as ValueElement;
+  for (const [name, value] of Object.entries(attributes)) el.setAttribute(name, value);
+  document.body.appendChild(el);
+  return el;
+}
+
+/** A key press as a browser delivers it: a button that gets Enter or Space clicks itself. */
+function press(target: HTMLElement, key: string) {
+  const down = new KeyboardEvent("keydown", {
+    key,
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+  });
+  target.dispatchEvent(down);
+  if (!down.defaultPrevented && target instanceof HTMLButtonElement) target.click();
+}
+
+const liveRegion = (el: HTMLElement) =>
+  el.shadowRoot?.querySelector('[aria-live="polite"]') as HTMLElement;
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("<engine-speed>", () => {
+  test("is a named meter with its range and value", () => {
+    const el = mount("engine-speed", { speed: "42", unit: "km/h" });
+    expect(el.getAttribute("role")).toBe("meter");
+    expect(el.getAttribute("aria-label")).toBe("Speed");
+    expect(el.getAttribute("aria-valuemin")).toBe("0");
+    expect(el.getAttribute("aria-valuemax")).toBe("130");
+    expect(el.getAttribute("aria-valuenow")).toBe("42");
+    expect(el.getAttribute("aria-valuetext")).toBe("42 km/h");
+  });
+
+  test("follows the value and the scale", () => {
+    const el = mount("engine-speed", { unit: "mph" });
+    el.speed = 55.6;
+    el.max = 160;
+    expect(el.getAttribute("aria-valuenow")).toBe("56");
+    expect(el.getAttribute("aria-valuetext")).toBe("56 mph");
+    expect(el.getAttribute("aria-valuemax")).toBe("160");
+  });
+
+  test("keeps a role and name set by the page", () => {
+    const el = mount("engine-speed", { role: "img", "aria-label": "Vehicle speed" });
+    expect(el.getAttribute("role")).toBe("img");
+    expect(el.getAttribute("aria-label")).toBe("Vehicle speed");
+  });
+
+  test("announces the value when it enters another band", () => {
+    const el = mount("engine-speed", { speed: "0", unit: "km/h" });
+    const region = liveRegion(el);
+    expect(region.getAttribute("aria-atomic")).toBe("true");
+
+    el.speed = 5; // same 10 km/h band as 0
+    expect(region.textContent).toBe("");
+    el.speed = 23;
+    expect(region.textContent).toBe("Speed 23 km/h");
+  });
+
+  test("announce-step 0 keeps it quiet", () => {
+    const el = mount("engine-speed", { speed: "0", "announce-step": "0" });
+    el.speed = 80;
+    expect(liveRegion(el).textContent).toBe("");
+  });
+});
+
+describe("<engine-rpm>", () => {
+  test("is a meter named after the tachometer", () => {
+    const el = mount("engine-rpm", { rpm: "2500" });
+    expect(el.getAttribute("role")).toBe("meter");
+    expect(el.getAttribute("aria-label")).toBe("Engine speed");
+    expect(el.getAttribute("aria-valuenow")).toBe("2500");
+  });
+});
+
+describe("<engine-power>", () => {
+  test("is a focusable vertical slider with its range and value", () => {
+    const el = mount("engine-power", { power: "3" });
+    expect(el.getAttribute("role")).toBe("slider");
+    expect(el.getAttribute("aria-label")).toBe("Engine power");
+    expect(el.getAttribute("aria-orientation")).toBe("vertical");
+    expect(el.getAttribute("tabindex")).toBe("0");
+    expect(el.getAttribute("aria-valuemin")).toBe("0");
+    expect(el.getAttribute("aria-valuemax")).toBe("6");
+    expect(el.getAttribute("aria-valuenow")).toBe("3");
+    expect(el.getAttribute("aria-valuetext")).toBe("3.0 of 6");
+  });
+
+  test("becomes a meter that takes no focus when readonly", () => {
+    const el = mount("engine-power", { power: "1" });
+    el.readOnly = true;
+    expect(el.getAttribute("role")).toBe("meter");
+    expect(el.hasAttribute("aria-orientation")).toBe(false);
+    expect(el.hasAttribute("tabindex")).toBe(false);
+    el.readOnly = false;
+    expect(el.getAttribute("role")).toBe("slider");
+  });
+
+  test("follows max", () => {
+    const el = mount("engine-power", { power: "4", max: "8" });
+    expect(el.getAttribute("aria-valuemax")).toBe("8");
+    expect(el.getAttribute("aria-valuetext")).toBe("4.0 of 8");
+  });
+
+  test("moving it keeps one live region and its own role", () => {
+    const el = mount("engine-power", { power: "1" });
+    document.body.appendChild(document.createElement("div")).appendChild(el);
+    expect(el.shadowRoot?.querySelectorAll('[aria-live="polite"]')).toHaveLength(1);
+    expect(el.shadowRoot?.querySelectorAll("svg")).toHaveLength(1);
+    el.readOnly = true;
+    expect(el.getAttribute("role")).toBe("meter");
+  });
+
+  test("announces each whole step of power", () => {
+    const el = mount("engine-power", { power: "0" });
+    el.power = 0.5;
+    expect(liveRegion(el).textContent).toBe("");
+    el.power = 2.2;
+    expect(liveRegion(el).textContent).toBe("Engine power 2.2 of 6");
+  });
+
+  test("announces under its own name when the page labels it by reference", () => {
+    const el = mount("engine-power", { power: "0", "aria-labelledby": "power-caption" });
+    expect(el.hasAttribute("aria-label")).toBe(false);
+    el.power = 3;
+    expect(liveRegion(el).textContent).toBe("Engine power 3.0 of 6");
+  });
+});
+
+describe("<distance-tracker>", () => {
+  const resetButton = (el: HTMLElement) =>
+    el.shadowRoot?.querySelector('[data-action="reset"]') as HTMLButtonElement;
+
+  test("Enter on the host cycles the view and announces it", () => {
+    const el = mount("distance-tracker", { distance: "12.34" });
+    expect(el.getAttribute("tabindex")).toBe("0");
+    press(el, "Enter");
+    expect(el.getAttribute("view")).toBe("odometer");
+    expect(liveRegion(el).textContent).toBe("Odometer 12 km");
+  });
+
+  test("the reset button resets the trip from the keyboard", () => {
+    const el = mount("distance-tracker", { view: "trip-b" });
+    const resets: string[] = [];
+    el.addEventListener("trip-reset", (e) => resets.push((e as CustomEvent).detail.trip));
+    const button = resetButton(el);
+    expect(button).toHaveAccessibleName("Reset Trip B");
+
+    button.focus();
+    press(button, "Enter");
+    press(button, " ");
+    expect(resets).toEqual(["B", "B"]);
+    expect(el.getAttribute("view")).toBe("trip-b");
+    expect(liveRegion(el).textContent).toBe("Trip B reset");
+  });
+
+  test("the reset button keeps its node and focus while values change", () => {
+    const el = mount("distance-tracker", { view: "trip-a" });
+    const button = resetButton(el);
+    button.focus();
+    el.distance = 3.7;
+    el.speed = 88;
+    expect(resetButton(el)).toBe(button);
+    expect(el.shadowRoot?.activeElement).toBe(button);
+  });
+
+  test("the reset button is hidden outside the trip views", () => {
+    const el = mount("distance-tracker", { view: "odometer" });
+    expect(resetButton(el).hidden).toBe(true);
+  });
+});
@@ -0,0 +1,98 @@
+/*
+  Accessibility helpers for the dashboard's custom elements
+  ---------------------------------------------------------
+  • initMeter(el, label, min, max): gives the host role="meter", a name and its range,
+    unless the page already set them (author attributes win)
+  • setAria(el, attrs): writes aria-* attributes only when they change, so calling it on
+    every value update doesn't churn the DOM (null removes the attribute)
+  • LiveAnnouncer: a visually hidden polite live region for screen readers. Values stream in
+    every frame, so update(value, text) only speaks when the value has moved into another
+    `step`-sized band, and never more often than `minIntervalMs` (the latest change that
+    arrived in between is spoken when the interval ends). say(text) speaks at once, for
+    discrete events like a view change.
+*/
+
+export function setAria(el: HTMLElement, attrs: Record<string, string | number | null>) {
+  for (const [name, value] of Object.entries(attrs)) {
+    if (value == null) {
+      el.removeAttribute(name);
+      continue;
+    }
+    const str = String(value);
+    if (el.getAttribute(name) !== str) el.setAttribute(name, str);
+  }
+}
+
+export function initMeter(el: HTMLElement, label: string, min: number, max: number) {
+  if (!el.hasAttribute("role")) el.setAttribute("role", "meter");
+  if (!el.hasAttribute("aria-label") && !el.hasAttribute("aria-labelledby")) {
+    el.setAttribute("aria-label", label);
+  }
+  setAria(el, { "aria-valuemin": min, "aria-valuemax": max });
+}
+
+const VISUALLY_HIDDEN =
+  "position:absolute;width:1px;height:1px;margin:-1px;padding:0;border:0;" +
+  "overflow:hidden;clip:rect(0 0 0 0);white-space:nowrap;";
+
+export interface AnnouncerOptions {
+  /** Size of the value bands; 0 never announces value updates */
+  step: number;
+  minIntervalMs?: number;
+}
+
+export class LiveAnnouncer {
+  readonly element = document.createElement("span");
+
+  private band: number | null = null;
+  private lastAt = -Infinity;
+  private pending: string | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private options: AnnouncerOptions) {
+    this.element.setAttribute("aria-live", "polite");
+    this.element.setAttribute("aria-atomic", "true");
+    this.element.style.cssText = VISUALLY_HIDDEN;
+  }
+
+  set step(step: number) {
+    this.options.step = step;
+    this.band = null;
+  }
+
+  update(value: number, text: string) {
+    const { step } = this.options;
+    if (!(step > 0) || !Number.isFinite(value)) return;
+    const band = Math.floor(value / step);
+    if (this.band === null) {
+      // The first value is the starting point, not a change.
+      this.band = band;
+      return;
+    }
+    if (band === this.band) return;
+    this.band = band;
+
+    const wait = this.lastAt + (this.options.minIntervalMs ?? 2000) - Date.now();
+    if (wait <= 0) {
+      this.say(text);
+      return;
+    }
+    this.pending = text;
+    this.timer ??= setTimeout(() => {
+      this.timer = null;
+      if (this.pending != null) this.say(this.pending);
+    }, wait);
+  }
+
+  say(text: string) {
+    this.pending = null;
+    this.lastAt = Date.now();
+    this.element.textContent = text;
+  }
+
+  dispose() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.pending = null;
+  }
+}
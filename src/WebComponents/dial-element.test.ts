@@ -0,0 +1,52 @@
+import { observable, runInAction } from "mobx";
+import "./engine-speed.element";
+
+type SpeedElement = HTMLElement & {
+  speed: number;
+  zones: { from: number; to: number; color: string }[];
+  store?: { displaySpeed: number };
+};
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+test("a bound store keeps feeding the dial after it is moved", () => {
+  const store = observable({ displaySpeed: 10 });
+  const el = document.createElement("engine-speed") as SpeedElement;
+  el.store = store;
+  document.body.appendChild(el);
+  expect(el.speed).toBe(10);
+
+  // Moving disconnects and reconnects; the binding is dropped and made again, which writes
+  // the current value right away.
+  el.remove();
+  runInAction(() => (store.displaySpeed = 0));
+  document.body.appendChild(document.createElement("div")).appendChild(el);
+  expect(el.speed).toBe(0);
+  expect(el.store).toBe(store);
+});
+
+test("a removed dial stops following the store", () => {
+  const store = observable({ displaySpeed: 10 });
+  const el = document.createElement("engine-speed") as SpeedElement;
+  el.store = store;
+  document.body.appendChild(el);
+  el.remove();
+
+  runInAction(() => (store.displaySpeed = 50));
+  expect(el.speed).toBe(10);
+});
+
+test("bad zones are dropped quietly", () => {
+  const warn = jest.spyOn(console, "warn");
+  const el = document.createElement("engine-speed") as SpeedElement;
+  document.body.appendChild(el);
+
+  el.setAttribute("zones", "[{ from: 100");
+  expect(el.zones).toEqual([]);
+  el.setAttribute("zones", '[{"from":100,"to":130,"color":"red"},{"from":"x","to":1}]');
+  expect(el.zones).toEqual([{ from: 100, to: 130, color: "red" }]);
+  expect(warn).not.toHaveBeenCalled();
+  warn.mockRestore();
+});
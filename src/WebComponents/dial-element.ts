@@ -0,0 +1,644 @@
+/*
+  DialElement (base class for <engine-speed> and <engine-rpm>)
+  ------------------------------------------------------------
+  Everything that makes a Pixi dial look and behave like the speedometer: the arc, the
+  configurable scale (min/max, sweep, major/minor ticks, zones, redline), the unit label,
+  the eased needle + progress arc, and an optional `store` property that binds the value
+  through bindElement (src/Binding), so store updates land once per animation frame (also
+  after the dial is moved: a reconnect binds the same store again).
+  The boolean `alert` attribute tints the progress arc, e.g. while an overspeed warning is up.
+  The `marker` attribute puts a small pointer on the arc at a value, e.g. a cruise-control
+  target; removing it hides the marker.
+  Colors come from the theme (see src/Theme/theme.ts): they are read when the static layer is
+  drawn, and a theme change marks it dirty so the whole dial repaints on the next frame.
+  Drawing goes through a WidgetRenderer (see renderer.ts): the page's shared Pixi renderer
+  where WebGL works, SVG otherwise; the `renderer` attribute ("auto", "webgl" or "svg")
+  forces one, and changing it redraws the dial with the other. The dial draws on layers
+  (zones, progress arc, scale and labels, needle, hub) and animates in the onFrame callback.
+  Size follows the host (default 270×270, override with CSS): every resize or devicePixelRatio
+  change rebuilds the static layers (arc, ticks, label font size, zones).
+
+  Accessibility: the host is a role="meter" with aria-valuemin/max/now and a valuetext with
+  the unit; a polite live region announces the value whenever it moves into another
+  `announce-step`-sized band (throttled, see a11y.ts). 0 turns announcements off.
+
+  A concrete dial only decides:
+    • valueAttribute: which attribute carries the live value ("speed", "rpm", ...)
+    • readStore(store): which store field feeds it
+    • the scale defaults, accessible name and announce step, passed to super()
+    • optionally formatLabel() for tick labels and formatValueText() for screen readers
+
+  Subclasses must list their value attribute in observedAttributes:
+    static get observedAttributes() { return ["rpm", ...DIAL_ATTRIBUTES]; }
+*/
+
+import { bindElementDynamic } from "../Binding/bindElement";
+import { THEME_CHANGE_EVENT, themeColor } from "../Theme/theme";
+import { initMeter, LiveAnnouncer, setAria } from "./a11y";
+import {
+  createRenderer,
+  DrawLayer,
+  parseRendererPreference,
+  RendererPreference,
+  WidgetRenderer,
+} from "./renderer";
+
+/** A colored band on the dial, e.g. a red zone from 110 to 130. */
+export interface GaugeZone {
+  from: number;
+  to: number;
+  color: string | number;
+}
+
+/** Scale defaults a concrete dial passes to the base class. */
+export interface DialDefaults {
+  min: number;
+  max: number;
+  startAngle: number;
+  endAngle: number;
+  majorStep: number;
+  minorStep: number;
+  /** Accessible name, e.g. "Speed" */
+  label: string;
+  /** Value band size for screen-reader announcements */
+  announceStep: number;
+}
+
+export const DIAL_ATTRIBUTES = [
+  "unit",
+  "min",
+  "max",
+  "start-angle",
+  "end-angle",
+  "major-step",
+  "minor-step",
+  "zones",
+  "redline",
+  "alert",
+  "marker",
+  "announce-step",
+  "renderer",
+];
+const DIAL_TOKENS = ["dialArc", "accent", "tick", "needle", "danger", "info"] as const;
+type DialColors = Record<(typeof DIAL_TOKENS)[number], string>;
+// Guards against a step so small that the tick loop would draw thousands of marks.
+const MAX_TICKS = 400;
+const DEFAULT_SIZE = { width: 270, height: 270 };
+const LABEL_FONT = "Inter, system-ui, ui-sans-serif, Arial";
+
+export abstract class DialElement<S = unknown> extends HTMLElement {
+  /** Attribute carrying the live value, e.g. "speed" (a getter: babel would emit a field) */
+  protected abstract get valueAttribute(): string;
+  /** Reads the live value from a bound store */
+  protected abstract readStore(store: S): number;
+
+  private root = this.attachShadow({ mode: "open" });
+  private wrapper!: HTMLDivElement;
+
+  private widgetRenderer?: WidgetRenderer;
+  private gauge!: DrawLayer;
+  private needle!: DrawLayer;
+  private centerDot!: DrawLayer;
+  private progressArc!: DrawLayer;
+  private zoneBands!: DrawLayer;
+
+  private _value = 0;
+  private _min: number;
+  private _max: number;
+  private _majorStep: number;
+  private _minorStep: number;
+  private _zones: GaugeZone[] = [];
+  private _redline: number | null = null;
+  private _alert = false;
+  private _marker: number | null = null;
+
+  private currentAngle = 0;
+  private targetAngle = 0;
+  private minDeg: number;
+  private maxDeg: number;
+  private staticDirty = false;
+  private colors = {} as DialColors;
+
+  private announcer: LiveAnnouncer;
+  private unbind?: () => void;
+  private _store?: S;
+
+  constructor(private readonly defaults: DialDefaults) {
+    super();
+    this._min = defaults.min;
+    this._max = defaults.max;
+    this.minDeg = defaults.startAngle;
+    this.maxDeg = defaults.endAngle;
+    this._majorStep = defaults.majorStep;
+    this._minorStep = defaults.minorStep;
+    this.announcer = new LiveAnnouncer({ step: defaults.announceStep });
+  }
+
+  set store(s: S | undefined) {
+    if (s === this._store) return;
+    this._store = s;
+    this.#bindToStore(s);
+  }
+  get store() {
+    return this._store;
+  }
+
+  connectedCallback() {
+    this.root.innerHTML = /*html*/ `
+      <style>
+        :host {
+          display: inline-block;
+          width: 270px;
+          height: 270px;
+        }
+        .wrap {
+          position: relative;
+          width: 100%;
+          height: 100%;
+        }
+        canvas,
+        svg {
+          display: block;
+        }
+        .unit {
+          position: absolute;
+          left: 0;
+          right: 0;
+          top: 68%;
+          text-align: center;
+          font: 600 14px/1 Inter, system-ui, sans-serif;
+          color: var(--dash-tick, #e5e7eb);
+          pointer-events: none;
+        }
+      </style>
+      <div class="wrap"><span class="unit"></span></div>
+    `;
+    this.wrapper = this.root.querySelector(".wrap") as HTMLDivElement;
+    this.root.appendChild(this.announcer.element);
+    this.#renderUnit();
+
+    this._value = this.#num(this.getAttribute(this.valueAttribute), 0);
+    initMeter(this, this.defaults.label, this._min, this._max);
+    this.#updateAria(this._value);
+    window.addEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+
+    this.#mountRenderer();
+    this.#setTargetFromValue(this._value);
+    // Disconnecting dropped the store binding; a reconnect (e.g. a move) binds it again.
+    if (!this.unbind) this.#bindToStore(this._store);
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+    this.announcer.dispose();
+    this.unbind?.();
+    this.unbind = undefined;
+    this.widgetRenderer?.destroy();
+    this.widgetRenderer = undefined;
+  }
+
+  attributeChangedCallback(name: string, _old: string | null, val: string | null) {
+    if (name === this.valueAttribute) {
+      this._value = this.#num(val, 0);
+      this.#setTargetFromValue(this._value);
+      return;
+    }
+    const d = this.defaults;
+    switch (name) {
+      case "unit":
+        this.#renderUnit();
+        this.#updateAria(this._value);
+        return;
+      case "announce-step":
+        this.announcer.step = Math.max(0, this.#num(val, d.announceStep));
+        return;
+      case "alert":
+        this._alert = val != null;
+        return;
+      case "renderer":
+        if (this.widgetRenderer) this.#mountRenderer();
+        return;
+      case "min":
+        this._min = this.#num(val, d.min);
+        break;
+      case "max":
+        this._max = this.#num(val, d.max);
+        break;
+      case "start-angle":
+        this.minDeg = this.#num(val, d.startAngle);
+        break;
+      case "end-angle":
+        this.maxDeg = this.#num(val, d.endAngle);
+        break;
+      case "major-step":
+        this._majorStep = Math.max(0, this.#num(val, d.majorStep));
+        break;
+      case "minor-step":
+        this._minorStep = Math.max(0, this.#num(val, d.minorStep));
+        break;
+      case "zones":
+        this._zones = this.#parseZones(val);
+        break;
+      case "redline": {
+        const n = Number(val);
+        this._redline = val != null && val !== "" && Number.isFinite(n) ? n : null;
+        break;
+      }
+      case "marker": {
+        const n = Number(val);
+        this._marker = val != null && val !== "" && Number.isFinite(n) ? n : null;
+        this.staticDirty = true;
+        return;
+      }
+    }
+    this.staticDirty = true;
+    if (this.isConnected) setAria(this, { "aria-valuemin": this._min, "aria-valuemax": this._max });
+    this.#setTargetFromValue(this._value);
+  }
+
+  private onThemeChange = () => {
+    this.staticDirty = true;
+  };
+
+  /** Live value; subclasses expose it under their own name (speed, rpm). */
+  protected get value() {
+    return this._value;
+  }
+  protected set value(v: number) {
+    // No need to check string to number if typeguard is used with REF's
+    if (!Number.isFinite(v) || v === this._value) return;
+    this.setAttribute(this.valueAttribute, String(v));
+  }
+
+  /** Screen-reader text for a value, e.g. "62 km/h" */
+  protected formatValueText(value: number) {
+    return `${Math.round(value)} ${this.unit}`.trim();
+  }
+
+  /** Tick label text; override to e.g. show rpm in thousands. */
+  protected formatLabel(value: number) {
+    return String(Number(value.toFixed(2)));
+  }
+
+  get min() {
+    return this._min;
+  }
+  set min(v: number) {
+    this.#reflect("min", v);
+  }
+
+  get max() {
+    return this._max;
+  }
+  set max(v: number) {
+    this.#reflect("max", v);
+  }
+
+  /** Dial start, in degrees clockwise from 3 o'clock. */
+  get startAngle() {
+    return this.minDeg;
+  }
+  set startAngle(v: number) {
+    this.#reflect("start-angle", v);
+  }
+
+  /** Dial end, in degrees clockwise from 3 o'clock. */
+  get endAngle() {
+    return this.maxDeg;
+  }
+  set endAngle(v: number) {
+    this.#reflect("end-angle", v);
+  }
+
+  /** Distance between labelled ticks; 0 hides them. */
+  get majorStep() {
+    return this._majorStep;
+  }
+  set majorStep(v: number) {
+    this.#reflect("major-step", v);
+  }
+
+  /** Distance between unlabelled ticks; 0 hides them. */
+  get minorStep() {
+    return this._minorStep;
+  }
+  set minorStep(v: number) {
+    this.#reflect("minor-step", v);
+  }
+
+  get zones(): GaugeZone[] {
+    return this._zones;
+  }
+  set zones(v: GaugeZone[]) {
+    this.setAttribute("zones", JSON.stringify(v ?? []));
+  }
+
+  /** Unit label shown under the hub, e.g. "km/h" */
+  get unit() {
+    return this.getAttribute("unit") ?? "";
+  }
+  set unit(v: string) {
+    this.setAttribute("unit", v);
+  }
+
+  #renderUnit() {
+    const label = this.root.querySelector(".unit");
+    if (label) label.textContent = this.unit;
+  }
+
+  /** Shorthand for a red zone from this value to max; null removes it. */
+  get redline(): number | null {
+    return this._redline;
+  }
+  set redline(v: number | null) {
+    if (v == null) this.removeAttribute("redline");
+    else this.#reflect("redline", v);
+  }
+
+  /** Value marked on the arc (e.g. a cruise-control target); null hides the marker. */
+  get marker(): number | null {
+    return this._marker;
+  }
+  set marker(v: number | null) {
+    if (v == null) this.removeAttribute("marker");
+    else this.#reflect("marker", v);
+  }
+
+  /** "auto", "webgl" or "svg" (see renderer.ts); reads "auto" when unset or unknown. */
+  get renderer(): RendererPreference {
+    return parseRendererPreference(this.getAttribute("renderer"));
+  }
+  set renderer(v: RendererPreference) {
+    this.setAttribute("renderer", v);
+  }
+
+  /** Tints the progress arc while true. */
+  get alert() {
+    return this._alert;
+  }
+  set alert(v: boolean) {
+    this.toggleAttribute("alert", Boolean(v));
+  }
+
+  #reflect(name: string, v: number) {
+    if (!Number.isFinite(v)) return;
+    this.setAttribute(name, String(v));
+  }
+
+  #parseZones(v: string | null): GaugeZone[] {
+    if (!v) return [];
+    try {
+      const parsed = JSON.parse(v);
+      if (!Array.isArray(parsed)) return [];
+      return parsed.filter(
+        (z) =>
+          z &&
+          Number.isFinite(Number(z.from)) &&
+          Number.isFinite(Number(z.to)) &&
+          (typeof z.color === "string" || typeof z.color === "number")
+      );
+    } catch {
+      return [];
+    }
+  }
+
+  #bindToStore(s?: S) {
+    this.unbind?.();
+    this.unbind = undefined;
+    if (!s) return;
+    // Writes the subclass's value property (speed, rpm), which reflects to the attribute.
+    this.unbind = bindElementDynamic(this, s, {
+      [this.valueAttribute]: (st) => this.readStore(st),
+    });
+  }
+
+  /** (Re)creates the renderer from the `renderer` attribute and draws the whole dial on it. */
+  #mountRenderer() {
+    this.widgetRenderer?.destroy();
+    this.widgetRenderer = undefined;
+    const renderer = createRenderer(this.wrapper, this.renderer, {
+      fallbackSize: DEFAULT_SIZE,
+      onResize: () => {
+        this.staticDirty = true;
+      },
+      onFrame: () => {
+        if (this.staticDirty) this.#drawStatic();
+        const ease = 0.15;
+        this.currentAngle += (this.targetAngle - this.currentAngle) * ease;
+        this.#updateProgressArc(this.currentAngle);
+        this.#updateNeedle(this.currentAngle);
+      },
+    });
+    this.widgetRenderer = renderer;
+    this.zoneBands = renderer.layer();
+    this.progressArc = renderer.layer();
+    this.gauge = renderer.layer();
+    this.needle = renderer.layer();
+    this.centerDot = renderer.layer();
+    this.#drawStatic();
+  }
+
+  /** Maps a scale value to its dial angle in radians (clamped to the scale). */
+  #valueToAngle(value: number) {
+    const clamped = Math.max(this._min, Math.min(this._max, value));
+    const t = (clamped - this._min) / Math.max(1e-6, this._max - this._min);
+    const deg = this.minDeg + (this.maxDeg - this.minDeg) * t;
+    return (deg * Math.PI) / 180;
+  }
+
+  /** Scale values from min to max in `step` increments (empty when step is 0). */
+  #ticks(step: number) {
+    const span = this._max - this._min;
+    if (step <= 0 || span <= 0 || span / step > MAX_TICKS) return [];
+    const values: number[] = [];
+    for (let i = 0; this._min + i * step <= this._max + 1e-9; i++) {
+      values.push(this._min + i * step);
+    }
+    return values;
+  }
+
+  #drawStatic() {
+    if (!this.widgetRenderer) return;
+    this.staticDirty = false;
+    for (const token of DIAL_TOKENS) this.colors[token] = themeColor(this, token);
+    const colors = this.colors;
+    this.gauge.clear();
+    this.zoneBands.clear();
+    this.centerDot.clear();
+
+    const { width: w, height: h } = this.widgetRenderer;
+    const cx = w / 2,
+      cy = h / 2;
+    const radius = Math.min(w, h) * 0.49;
+
+    const unit = this.root.querySelector<HTMLElement>(".unit");
+    if (unit) unit.style.fontSize = `${Math.max(10, Math.round(radius * 0.1))}px`;
+    const deg2rad = (d: number) => (d * Math.PI) / 180;
+    const a0 = deg2rad(this.minDeg),
+      a1 = deg2rad(this.maxDeg);
+
+    // end-angle may be below start-angle for a dial that sweeps counter-clockwise
+    this.gauge.arc(cx, cy, radius, a0, a1, a1 < a0, {
+      width: Math.max(1, radius * 0.01),
+      color: colors.dialArc,
+      cap: "round",
+    });
+
+    const zoneRadius = radius * 0.95;
+    const zoneWidth = Math.max(4, radius * 0.08);
+    const zones = [...this._zones];
+    if (this._redline != null) {
+      zones.push({ from: this._redline, to: this._max, color: colors.danger });
+    }
+    for (const zone of zones) {
+      const from = this.#valueToAngle(Math.min(zone.from, zone.to));
+      const to = this.#valueToAngle(Math.max(zone.from, zone.to));
+      if (Math.abs(to - from) < 1e-6) continue;
+      this.zoneBands.arc(cx, cy, zoneRadius, from, to, to < from, {
+        width: zoneWidth,
+        color: zone.color,
+        alpha: 0.45,
+      });
+    }
+
+    const labelStyle = {
+      family: LABEL_FONT,
+      size: Math.max(10, Math.round(radius * 0.12)),
+      color: colors.tick,
+      weight: "600",
+    };
+
+    const majors = this.#ticks(this._majorStep);
+    const isMajor = (v: number) =>
+      this._majorStep > 0 && Math.abs(((v - this._min) / this._majorStep) % 1) < 1e-6;
+
+    for (const val of this.#ticks(this._minorStep)) {
+      if (isMajor(val)) continue;
+      const ang = this.#valueToAngle(val);
+      const r0 = radius * 0.94;
+      this.gauge.line(
+        cx + Math.cos(ang) * r0,
+        cy + Math.sin(ang) * r0,
+        cx + Math.cos(ang) * radius,
+        cy + Math.sin(ang) * radius,
+        { width: Math.max(1, radius * 0.008), color: colors.tick }
+      );
+    }
+
+    for (const val of majors) {
+      const ang = this.#valueToAngle(val);
+      const r0 = radius * 0.89,
+        r1 = radius * 1;
+      const x0 = cx + Math.cos(ang) * r0,
+        y0 = cy + Math.sin(ang) * r0;
+      const x1 = cx + Math.cos(ang) * r1,
+        y1 = cy + Math.sin(ang) * r1;
+
+      this.gauge.line(x0, y0, x1, y1, { width: Math.max(1, radius * 0.015), color: colors.tick });
+
+      const lx = cx + Math.cos(ang) * (radius * 0.8);
+      const ly = cy + Math.sin(ang) * (radius * 0.8);
+      this.gauge.text(this.formatLabel(val), lx, ly, labelStyle);
+    }
+
+    if (this._marker != null && this._marker >= this._min && this._marker <= this._max) {
+      // A wedge from the rim pointing at the marked value.
+      const ang = this.#valueToAngle(this._marker);
+      const perp = ang + Math.PI / 2;
+      const half = radius * 0.045;
+      const tipR = radius * 0.84;
+      this.gauge.polygon(
+        [
+          cx + Math.cos(ang) * tipR,
+          cy + Math.sin(ang) * tipR,
+          cx + Math.cos(ang) * radius + Math.cos(perp) * half,
+          cy + Math.sin(ang) * radius + Math.sin(perp) * half,
+          cx + Math.cos(ang) * radius - Math.cos(perp) * half,
+          cy + Math.sin(ang) * radius - Math.sin(perp) * half,
+        ],
+        { color: colors.info }
+      );
+    }
+
+    this.centerDot.circle(cx, cy, Math.max(4, radius * 0.06), { color: colors.accent });
+  }
+
+  #updateNeedle(angleRad: number) {
+    if (!this.widgetRenderer) return;
+    const { width: w, height: h } = this.widgetRenderer;
+    const cx = w / 2;
+    const cy = h / 2;
+    const radius = Math.min(w, h) * 0.49;
+
+    const length = radius * 0.65;
+    const baseWidth = radius * 0.05;
+
+    // tip (far end of the needle)
+    const tipX = cx + Math.cos(angleRad) * length;
+    const tipY = cy + Math.sin(angleRad) * length;
+
+    // perpendicular angle for the base width
+    const perp = angleRad + Math.PI / 2;
+
+    // two base points (left/right from center)
+    const baseX1 = cx + Math.cos(perp) * (baseWidth / 2);
+    const baseY1 = cy + Math.sin(perp) * (baseWidth / 2);
+
+    const baseX2 = cx - Math.cos(perp) * (baseWidth / 2);
+    const baseY2 = cy - Math.sin(perp) * (baseWidth / 2);
+
+    this.needle.clear();
+    this.needle.polygon([tipX, tipY, baseX1, baseY1, baseX2, baseY2], {
+      color: this.colors.needle,
+    });
+  }
+
+  #updateProgressArc(currentAngleRad: number) {
+    if (!this.widgetRenderer) return;
+    const { width: w, height: h } = this.widgetRenderer;
+    const cx = w / 2,
+      cy = h / 2;
+    const radius = Math.min(w, h) * 0.49;
+
+    // dial bounds in radians
+    const a0 = (this.minDeg * Math.PI) / 180;
+    const a1 = (this.maxDeg * Math.PI) / 180;
+
+    // clamp current to dial bounds just in case
+    const cur = Math.max(Math.min(currentAngleRad, Math.max(a0, a1)), Math.min(a0, a1));
+
+    this.progressArc.clear();
+
+    const trackRadius = radius * 0.95;
+    const trackWidth = Math.max(4, radius * 0.08);
+    if (Math.abs(cur - a0) > 1e-6) {
+      this.progressArc.arc(cx, cy, trackRadius, a0, cur, a1 < a0, {
+        width: trackWidth,
+        color: this._alert ? this.colors.danger : this.colors.accent,
+      });
+    }
+  }
+
+  #setTargetFromValue(value: number) {
+    this.targetAngle = this.#valueToAngle(value);
+    this._value = value;
+    this.#updateAria(value);
+  }
+
+  #updateAria(value: number) {
+    if (!this.isConnected) return;
+    const text = this.formatValueText(value);
+    setAria(this, { "aria-valuenow": Math.round(value), "aria-valuetext": text });
+    this.announcer.update(
+      value,
+      `${this.getAttribute("aria-label") ?? this.defaults.label} ${text}`
+    );
+  }
+
+  /** Parses a numeric attribute; a removed or blank one (Number would read 0) falls back. */
+  #num(v: string | null, fallback: number) {
+    if (v == null || v.trim() === "") return fallback;
+    const n = Number(v);
+    return Number.isFinite(n) ? n : fallback;
+  }
+}
@@ -1,20 +1,184 @@
+import { LiveAnnouncer } from "./a11y";
+
+/** Which distance the right-hand column shows; clicking the element cycles through them. */
+export type TrackerView = "session" | "odometer" | "trip-a" | "trip-b";
+const VIEWS: TrackerView[] = ["session", "odometer", "trip-a", "trip-b"];
+const VIEW_LABELS: Record<TrackerView, string> = {
+  session: "DIST",
+  odometer: "ODO",
+  "trip-a": "TRIP A",
+  "trip-b": "TRIP B",
+};
+const VIEW_NAMES: Record<TrackerView, string> = {
+  session: "Distance",
+  odometer: "Odometer",
+  "trip-a": "Trip A",
+  "trip-b": "Trip B",
+};
+
+/** Extra figures shown in the trip views (speeds in the same units as `speed`). */
+export interface TripStats {
+  elapsed: number;
+  averageSpeed: number;
+  maxSpeed: number;
+}
+
+const isView = (v: string | null): v is TrackerView => VIEWS.includes(v as TrackerView);
+
+const formatElapsed = (ms: number) => {
+  const totalMin = Math.floor(ms / 60_000);
+  const h = Math.floor(totalMin / 60);
+  return `${h}:${String(totalMin % 60).padStart(2, "0")}`;
+};
+
+// Built once per element; render() only touches the text and attributes of these parts.
+const PARTS = [
+  "speed",
+  "speedValue",
+  "speedUnit",
+  "distance",
+  "viewLabel",
+  "reset",
+  "distanceValue",
+  "distanceUnit",
+  "stats",
+] as const;
+type Part = (typeof PARTS)[number];
+
+const TEMPLATE = /*html*/ `
+  <style>
+    @font-face {
+      font-family: "Inter";
+      src: url("../assets/fonts/Inter-Regular.woff2") format("woff2");
+      font-weight: 400;
+      font-style: normal;
+      font-display: swap;
+    }
+    :host {
+      box-sizing: border-box;
+      min-height: 100px;
+      width: 197px;
+      padding: 20px;
+      border: 1px solid var(--dash-outline, #ffffff);
+      background: var(--dash-surface, #1a1823);
+      color: var(--dash-text, #ffffff);
+      font: 14px/1.2 Inter;
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 24px;
+      align-items: center;
+      flex-direction: row;
+      justify-content: space-between;
+      cursor: pointer;
+      user-select: none;
+    }
+    .value {
+      font: 32px/1.2 Inter;
+      font-weight: 600;
+    }
+    .caption {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      font-size: 10px;
+      letter-spacing: 0.08em;
+      opacity: 0.7;
+    }
+    .reset {
+      font: inherit;
+      color: inherit;
+      background: none;
+      border: 1px solid currentColor;
+      padding: 0 4px;
+      cursor: pointer;
+    }
+    .reset[hidden],
+    .stats[hidden] {
+      display: none;
+    }
+    .stats {
+      flex-basis: 100%;
+      font-size: 11px;
+      opacity: 0.8;
+    }
+  </style>
+  <div role="meter" aria-label="Speed" aria-valuemin="0" data-part="speed">
+    <span class="value" data-part="speedValue"></span><br /><span data-part="speedUnit"></span>
+  </div>
+  <div role="group" data-part="distance">
+    <span class="caption">
+      <span data-part="viewLabel"></span>
+      <button class="reset" data-action="reset" data-part="reset" title="Reset trip">↺</button>
+    </span>
+    <span class="value" data-part="distanceValue"></span><br /><span data-part="distanceUnit"></span>
+  </div>
+  <div class="stats" data-part="stats"></div>
+`;
+
 class DistanceTrackerElement extends HTMLElement {
   static get observedAttributes() {
-    return ["distance", "speed"];
+    return ["distance", "speed", "speed-unit", "distance-unit", "view", "speed-max"];
   }
 
   private root = this.attachShadow({ mode: "open" });
   private _distance = 0;
   private _speed = 0;
+  private _speedUnit = "km/h";
+  private _distanceUnit = "km";
+  private _view: TrackerView = "session";
+  private _speedMax = 130;
+  private _trip: TripStats | null = null;
   private _reflecting = false; // reentrancy guard
 
+  private announcer = new LiveAnnouncer({ step: 0 });
+  private parts: Record<Part, HTMLElement>;
+
+  constructor() {
+    super();
+    this.root.innerHTML = TEMPLATE;
+    this.root.append(this.announcer.element);
+    this.parts = Object.fromEntries(
+      PARTS.map((name) => [name, this.root.querySelector(`[data-part="${name}"]`)])
+    ) as Record<Part, HTMLElement>;
+  }
+
   connectedCallback() {
+    if (!this.hasAttribute("role")) this.setAttribute("role", "group");
+    if (!this.hasAttribute("aria-label")) this.setAttribute("aria-label", "Trip computer");
+    if (!this.hasAttribute("tabindex")) this.setAttribute("tabindex", "0");
+    this.addEventListener("click", this.onClick);
+    this.addEventListener("keydown", this.onKeyDown);
     this._distance = Number(this.getAttribute("distance") ?? 0) || 0;
     this._speed = Number(this.getAttribute("speed") ?? 0) || 0;
+    this._speedUnit = this.getAttribute("speed-unit") ?? this._speedUnit;
+    this._distanceUnit = this.getAttribute("distance-unit") ?? this._distanceUnit;
     this.render();
   }
 
+  disconnectedCallback() {
+    this.removeEventListener("click", this.onClick);
+    this.removeEventListener("keydown", this.onKeyDown);
+    this.announcer.dispose();
+  }
+
   attributeChangedCallback(name: string, _oldV: string | null, newV: string | null) {
+    if (name === "speed-unit" || name === "distance-unit") {
+      if (name === "speed-unit") this._speedUnit = newV ?? "km/h";
+      else this._distanceUnit = newV ?? "km";
+      this.render();
+      return;
+    }
+    if (name === "speed-max") {
+      const n = Number(newV);
+      this._speedMax = newV != null && Number.isFinite(n) && n > 0 ? n : 130;
+      this.render();
+      return;
+    }
+    if (name === "view") {
+      this._view = isView(newV) ? newV : "session";
+      this.render();
+      return;
+    }
     const n = Number(newV ?? 0) || 0;
     if (name === "distance" && n !== this._distance) {
       this._distance = n;
@@ -34,6 +198,80 @@ class DistanceTrackerElement extends HTMLElement {
     return this._speed;
   }
 
+  get speedUnit(): string {
+    return this._speedUnit;
+  }
+  set speedUnit(v: string) {
+    this.setAttribute("speed-unit", v);
+  }
+
+  get distanceUnit(): string {
+    return this._distanceUnit;
+  }
+  set distanceUnit(v: string) {
+    this.setAttribute("distance-unit", v);
+  }
+
+  /** Top of the speed range, for the speed meter's aria-valuemax */
+  get speedMax(): number {
+    return this._speedMax;
+  }
+  set speedMax(v: number) {
+    const n = Number(v);
+    if (Number.isFinite(n)) this.setAttribute("speed-max", String(n));
+  }
+
+  get view(): TrackerView {
+    return this._view;
+  }
+  set view(v: TrackerView) {
+    if (isView(v)) this.setAttribute("view", v);
+  }
+
+  /** Trip figures for the trip views; ignored in the session and odometer views. */
+  get trip(): TripStats | null {
+    return this._trip;
+  }
+  set trip(v: TripStats | null) {
+    this._trip = v;
+    this.render();
+  }
+
+  /**
+   * Click cycles session → odometer → trip A → trip B, announcing it with a `view-change`
+   * event; the reset button in a trip view emits `trip-reset` instead.
+   */
+  private onClick = (e: MouseEvent) => {
+    const reset = e
+      .composedPath()
+      .some((n) => n instanceof HTMLElement && n.dataset.action === "reset");
+    if (reset) {
+      const trip = this._view === "trip-b" ? "B" : "A";
+      this.dispatchEvent(new CustomEvent("trip-reset", { detail: { trip }, bubbles: true }));
+      this.announcer.say(`Trip ${trip} reset`);
+      return;
+    }
+    const next = VIEWS[(VIEWS.indexOf(this._view) + 1) % VIEWS.length];
+    this.view = next;
+    this.dispatchEvent(new CustomEvent("view-change", { detail: { view: next }, bubbles: true }));
+    // Listeners have swapped in the new view's distance by now.
+    this.announcer.say(`${VIEW_NAMES[next]} ${this.#distanceText()}`);
+  };
+
+  /**
+   * Enter/Space on the focused element cycles the view like a click. Keys on the reset
+   * button (retargeted to the host) are left to the button, which clicks itself.
+   */
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.composedPath()[0] !== this || (e.key !== "Enter" && e.key !== " ")) return;
+    e.preventDefault();
+    this.click();
+  };
+
+  #distanceText() {
+    return `${this._distance.toFixed(this._view === "odometer" ? 0 : 1)} ${this._distanceUnit}`;
+  }
+
   set distance(v: number) {
     const n = Number(v);
     if (!Number.isFinite(n)) return;
@@ -60,41 +298,38 @@ class DistanceTrackerElement extends HTMLElement {
   }
 
   private render() {
-    console.log("[distance-tracker] render", { distance: this._distance });
-    this.root.innerHTML = /*html*/ `
-      <style>
-        @font-face {
-          font-family: "Inter";
-          src: url("../assets/fonts/Inter-Regular.woff2") format("woff2");
-          font-weight: 400;
-          font-style: normal;
-          font-display: swap;
-        }
-        :host {
-          box-sizing: border-box;
-          height: 100px;
-          width: 197px;
-          padding: 20px;
-          border: 1px solid #ffffff;
-          background: #1a1823;
-          font: 14px/1.2 Inter;
-          display: flex;
-          gap: 24px;
-          align-items: center;
-          flex-direction: row;
-          justify-content: space-between;
-        }
-        .value {
-          font: 32px/1.2 Inter;
-          font-weight: 600;
-        }
-      </style>
-      <div><span class="value">${this._speed.toFixed(0)}</span><br />km/h</div>
-      <div>
-        <span class="value">${this._distance.toFixed(0)}</span><br />
-        km
-      </div>
-    `;
+    const trip = this._view === "trip-a" || this._view === "trip-b";
+    const speed = this._speed.toFixed(0);
+    const text = (el: Element, value: string) => {
+      if (el.textContent !== value) el.textContent = value;
+    };
+    const attr = (el: Element, name: string, value: string) => {
+      if (el.getAttribute(name) !== value) el.setAttribute(name, value);
+    };
+
+    // Values arrive every frame but the rounded text rarely changes; only changed text and
+    // attributes are written, and the nodes stay put, so the reset button keeps its focus.
+    const { parts } = this;
+    attr(parts.speed, "aria-valuemax", String(this._speedMax));
+    attr(parts.speed, "aria-valuenow", speed);
+    attr(parts.speed, "aria-valuetext", `${speed} ${this._speedUnit}`);
+    text(parts.speedValue, speed);
+    text(parts.speedUnit, this._speedUnit);
+
+    attr(parts.distance, "aria-label", `${VIEW_NAMES[this._view]}: ${this.#distanceText()}`);
+    text(parts.viewLabel, VIEW_LABELS[this._view]);
+    parts.reset.hidden = !trip;
+    attr(parts.reset, "aria-label", `Reset ${VIEW_NAMES[this._view]}`);
+    text(parts.distanceValue, this._distance.toFixed(this._view === "odometer" ? 0 : 1));
+    text(parts.distanceUnit, this._distanceUnit);
+
+    const stats =
+      trip && this._trip
+        ? `avg ${this._trip.averageSpeed.toFixed(0)} · max ${this._trip.maxSpeed.toFixed(0)} ` +
+          `${this._speedUnit} · ${formatElapsed(this._trip.elapsed)}`
+        : "";
+    parts.stats.hidden = !stats;
+    text(parts.stats, stats);
   }
 }
 
@@ -1,193 +1,321 @@
 /*
   EngingePowerElement (custom element: <engine-power>)
   ---------------------------------------------------
-  What it is:
-    A simple Web Component that displays a numeric "power" value and re-renders whenever
-    that value changes. It supports BOTH:
-      • Attribute-based updates:   <engine-power power="42"></engine-power>
-      • Property-based updates:    const el = document.querySelector('engine-power')!; el.power = 42; 
-      1) Property (ref) driven:  ref.current.power = 42
-        - How: In JS/TS, set the class property via a ref (or direct element var).
-        - Pros:
-          • Type-safe (v: number), no string→number conversions
-          • Fast: skips attribute mutation & attributeChangedCallback
-          • Great for app-internal/stateful updates (MobX/React).
-        - Cons:
-          • Value not visible in HTML attributes (harder to inspect in DevTools)
-          • Not declarative/SSR-friendly (can’t prefill in static HTML)
-    
-      2) Attribute driven:  <engine-power power="42">
-        - How: Author sets HTML attribute; component reads it via
-                attributeChangedCallback("power", old, new).
-        - Pros:
-          • Declarative & SSR-friendly; initial value shows up in HTML
-          • Easy to test & tweak from DevTools/Storybook
-          • Plays nicely with non-JS templating & CMSs
-        - Cons:
-          • Attribute values are strings → need Number(...) parsing/validation
-          • Slightly more overhead (DOM attr change + callback)
-    
-      Recommended: HYBRID
-      - Accept both .power (property) and power="…" (attribute).
-      - Internally guard against feedback loops: only reflect when the
-        canonical internal value actually changes.
-      - If your app mostly uses refs, prefer property-only during hot paths,
-      and reflect to attribute only when you want inspectability.
-    
-
-  How it works (key pieces, top to bottom):
-  1) observedAttributes():
-     - Declares which attributes should be watched for changes by the platform.
-     - Here it returns ["power"], meaning when the 'power' attribute changes,
-       attributeChangedCallback(...) will run.
-
-  2) Shadow DOM setup:
-     - The field `private root = this.attachShadow({ mode: "open" });` creates an OPEN shadow root
-       as soon as the instance is constructed. All rendering (markup + styles) is scoped inside
-       this.shadowRoot so page-wide CSS doesn't accidentally affect it (and vice versa).
-     - "open" means external code can access el.shadowRoot for debugging/testing.
-
-  3) Internal state:
-     - `_power` holds the current numeric value. This is the single source of truth used by render().
-     - The public getter/setter `power` exposes a typed property API on the element.
-
-  4) Lifecycle: connectedCallback():
-     - Runs when the element is inserted into the DOM.
-     - Reads the initial "power" attribute (if present), converts it to a number, stores it in _power,
-       and calls render() to paint the UI for the first time.
-     - Note: If the attribute wasn’t present, it defaults to 0.
-
-  5) attributeChangedCallback(name, oldV, newV):
-     - Runs whenever an observed attribute changes (including programmatic changes via setAttribute()).
-     - Filters for 'power' and ignores no-op changes (oldV === newV).
-     - Converts the new value to a number (Number(newV) || 0), updates _power, and re-renders.
-     - This is the main path for attribute-driven updates.
-
-  6) Public API (property): get/set power
-     - Getter returns the current numeric _power.
-     - Setter accepts any value, coerces to Number, validates it, and—IMPORTANTLY—calls
-       setAttribute('power', String(n)) instead of directly mutating _power.
-       Why? This design "reflects" property changes back to the attribute so both stay in sync,
-       and it centralizes the actual state update in attributeChangedCallback().
-       That means the flow is: property set -> attribute change -> attributeChangedCallback -> _power + render().
-     - This reflection pattern is handy for tooling/devtools (you can see current value in HTML),
-       but it does involve an attribute write per update.
-
-  7) render():
-     - Replaces the entire shadow DOM content with a small template that includes:
-       • Scoped styles for the host element
-       • A display of the current _power value
-     - Called after initial connect and after every accepted change to _power.
-
-  Usage patterns:
-    HTML (attribute-driven):
-      <engine-power power="75"></engine-power>
-
-    JS (property-driven):
-      const el = document.querySelector('engine-power')!;
-      el.power = 90;        // triggers setAttribute -> attributeChangedCallback -> render()
-
-  Design trade-offs / notes:
-    • Attribute reflection (property -> attribute) is convenient for debugging and declarative usage,
-      but attributes are strings and involve DOM mutation. For high-frequency updates (e.g., 60fps),
-      a direct property-to-state update (without setAttribute) is more performant. If you want that,
-      you can change the setter to assign _power and call render() directly, skipping setAttribute().
-    • The component currently coerces invalid/NaN inputs to 0 via `Number(v) || 0` in the attribute path.
-      Consider whether you want to reject NaN, clamp, or handle negatives differently.
-    • The class name has a small typo ("Enginge" vs "Engine"), but that doesn’t affect runtime
-      since the tag name is what matters (`customElements.define("engine-power", ...)`).
-    • Exporting an empty module (`export {}`) ensures TypeScript treats the file as a module and
-      doesn’t leak declarations into the global scope.
-
-  TL;DR:
-    This component binds a numeric 'power' value to a Shadow DOM UI. It accepts updates from either
-    attributes or properties, reflects property changes to attributes for consistency, and re-renders
-    on every change. For heavy real-time updates, prefer setting the `.power` property directly from
-    your app (e.g., via a React ref) to avoid attribute churn.
+  A vertical bar showing the engine power level, which can also be set from the bar itself.
+
+  Attributes (mirrored by properties):
+    • power (prop: power): current level; the setter reflects to the attribute and the bar
+      redraws from attributeChangedCallback
+    • max (prop: max): top of the bar, default 6 (the dashboard's MAX_POWER); bind it to the
+      store's `maxPower` when the vehicle has a different limit
+    • readonly (prop: readOnly): boolean, turns input off
+    • renderer: "auto", "webgl" or "svg" (see Rendering)
+
+  Input:
+    Pointer drag or click (the fill follows the pointer), mouse wheel (±0.1 per notch) and
+    keyboard when focused (arrows ±0.1, PageUp/PageDown ±1, Home/End for 0/max). None of these
+    change `power` itself: the element dispatches a `power-input` CustomEvent whose detail is
+    { power, source } with the proposed, clamped value, and whoever owns the value (the
+    dashboard maps it to store.setPower) writes it back.
+
+  Rendering:
+    The shadow content (wrapper, styles, live region) is built on the first connect; moving
+    the element reuses it. The bar draws through a WidgetRenderer (see renderer.ts): the shared
+    Pixi renderer where WebGL works, SVG otherwise. The `renderer` attribute forces one.
+
+  Accessibility:
+    The host is a role="slider" (role="meter" when readonly; 0–max) with aria-valuenow/valuetext
+    kept in sync, and a polite live region announces each whole step of power (see a11y.ts),
+    named by the host's aria-label or "Engine power". A role set by the page is kept.
+
+  Usage:
+    <engine-power power="2.5" max="6"></engine-power>
+    el.addEventListener("power-input", (e) => store.setPower(e.detail.power));
 */
 
-import { Application, Graphics } from "pixi.js";
+import { THEME_CHANGE_EVENT, themeColor } from "../Theme/theme";
+import { initMeter, LiveAnnouncer, setAria } from "./a11y";
+import {
+  createRenderer,
+  DrawLayer,
+  parseRendererPreference,
+  RendererPreference,
+  WidgetRenderer,
+} from "./renderer";
+
+const DEFAULT_MAX = 6;
+const DEFAULT_LABEL = "Engine power";
+const DEFAULT_SIZE = { width: 55, height: 219 };
+const KEY_STEP = 0.1;
+const PAGE_STEP = 1;
+
+export type PowerInputSource = "pointer" | "wheel" | "keyboard";
+
+export interface PowerInputDetail {
+  /** Proposed power, clamped to 0–max and rounded to 0.1 */
+  power: number;
+  source: PowerInputSource;
+}
+
+declare global {
+  interface HTMLElementEventMap {
+    "power-input": CustomEvent<PowerInputDetail>;
+  }
+}
 
 class EngingePowerElement extends HTMLElement {
   static get observedAttributes() {
-    return ["power"];
+    return ["power", "readonly", "max", "renderer"];
   }
 
   private root = this.attachShadow({ mode: "open" });
   private _power = 0;
+  private _max = DEFAULT_MAX;
 
   private wrapper!: HTMLDivElement;
-  private app!: Application;
-  private graphics!: Graphics;
+  private widgetRenderer?: WidgetRenderer;
+  private bar?: DrawLayer;
+  private announcer = new LiveAnnouncer({ step: 1 });
+  /** Whether the role is ours to switch between slider and meter */
+  private ownRole = false;
+  private dragging: number | null = null;
 
   connectedCallback() {
-    console.log("[engine-power] connected");
     this._power = Number(this.getAttribute("power") ?? 0);
+    // Moving the element in the DOM reconnects it; the shadow content is built once.
+    if (!this.wrapper) this.build();
+    this.syncReadOnly();
+    this.updateAria();
+    this.addEventListener("pointerdown", this.onPointerDown);
+    this.addEventListener("pointermove", this.onPointerMove);
+    this.addEventListener("pointerup", this.onPointerUp);
+    this.addEventListener("pointercancel", this.onPointerUp);
+    this.addEventListener("wheel", this.onWheel, { passive: false });
+    this.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+    this.mountRenderer();
+  }
 
+  private build() {
     this.wrapper = document.createElement("div");
-    this.wrapper.style.width = "55px";
-    this.wrapper.style.height = "219px";
+    this.wrapper.style.width = "100%";
+    this.wrapper.style.height = "100%";
     this.root.appendChild(this.wrapper);
 
     const style = document.createElement("style");
     style.textContent = `
-        canvas { outline: none; }
-        :host { outline: none; }
+        canvas, svg { outline: none; }
+        :host {
+          outline: none; display: inline-block; width: 55px; height: 219px;
+          cursor: ns-resize; touch-action: none;
+        }
+        :host(:focus-visible) { outline: 2px solid var(--dash-accent, #00aaff); outline-offset: 2px; }
+        :host([readonly]) { cursor: default; touch-action: auto; }
       `;
     this.root.appendChild(style);
+    this.root.appendChild(this.announcer.element);
+
+    this.ownRole = !this.hasAttribute("role");
+    initMeter(this, DEFAULT_LABEL, 0, this._max);
+  }
 
-    this.initPixi();
-    // this.render();
+  disconnectedCallback() {
+    this.removeEventListener("pointerdown", this.onPointerDown);
+    this.removeEventListener("pointermove", this.onPointerMove);
+    this.removeEventListener("pointerup", this.onPointerUp);
+    this.removeEventListener("pointercancel", this.onPointerUp);
+    this.removeEventListener("wheel", this.onWheel);
+    this.removeEventListener("keydown", this.onKeyDown);
+    this.dragging = null;
+    window.removeEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+    this.widgetRenderer?.destroy();
+    this.widgetRenderer = undefined;
+    this.bar = undefined;
+    this.announcer.dispose();
   }
+
+  // Colors are read from the theme on every render; a theme switch just repaints.
+  private onThemeChange = () => this.render();
+
   attributeChangedCallback(name: string, oldV: string | null, newV: string | null) {
-    console.log("attr change:", { oldV, newV });
-    if (name !== "power" || oldV === newV) return;
+    if (oldV === newV) return;
+    if (name === "readonly") {
+      this.syncReadOnly();
+      return;
+    }
+    if (name === "renderer") {
+      if (this.widgetRenderer) this.mountRenderer();
+      return;
+    }
+    if (name === "max") {
+      const n = Number(newV);
+      this._max = newV != null && Number.isFinite(n) && n > 0 ? n : DEFAULT_MAX;
+      if (this.isConnected) setAria(this, { "aria-valuemax": this._max });
+      this.updateAria();
+      this.render();
+      return;
+    }
+    if (name !== "power") return;
     this._power = Number(newV ?? 0) || 0;
+    this.updateAria();
     this.render();
   }
 
+  private updateAria() {
+    if (!this.isConnected) return;
+    const text = `${this._power.toFixed(1)} of ${this._max}`;
+    setAria(this, { "aria-valuenow": this._power, "aria-valuetext": text });
+    this.announcer.update(
+      this._power,
+      `${this.getAttribute("aria-label") ?? DEFAULT_LABEL} ${text}`
+    );
+  }
+
+  /** Slider while interactive, meter when readonly; only focusable while it takes input. */
+  private syncReadOnly() {
+    if (!this.isConnected) return;
+    const readOnly = this.readOnly;
+    if (this.ownRole) this.setAttribute("role", readOnly ? "meter" : "slider");
+    setAria(this, { "aria-orientation": readOnly ? null : "vertical" });
+    if (readOnly) this.removeAttribute("tabindex");
+    else if (!this.hasAttribute("tabindex")) this.setAttribute("tabindex", "0");
+    if (readOnly) this.dragging = null;
+  }
+
+  private propose(value: number, source: PowerInputSource) {
+    const power = Number(Math.min(this._max, Math.max(0, value)).toFixed(1));
+    if (power === this._power) return;
+    this.dispatchEvent(
+      new CustomEvent<PowerInputDetail>("power-input", {
+        detail: { power, source },
+        bubbles: true,
+        composed: true,
+      })
+    );
+  }
+
+  /** Power under a pointer at clientY: the top edge is max, the bottom edge 0. */
+  private powerAt(clientY: number) {
+    const rect = this.getBoundingClientRect();
+    if (rect.height <= 0) return this._power;
+    return ((rect.bottom - clientY) / rect.height) * this._max;
+  }
+
+  private onPointerDown = (e: PointerEvent) => {
+    if (this.readOnly || e.button !== 0) return;
+    e.preventDefault();
+    this.focus();
+    this.dragging = e.pointerId;
+    this.setPointerCapture(e.pointerId);
+    this.propose(this.powerAt(e.clientY), "pointer");
+  };
+
+  private onPointerMove = (e: PointerEvent) => {
+    if (this.dragging !== e.pointerId) return;
+    this.propose(this.powerAt(e.clientY), "pointer");
+  };
+
+  private onPointerUp = (e: PointerEvent) => {
+    if (this.dragging !== e.pointerId) return;
+    this.dragging = null;
+    if (this.hasPointerCapture(e.pointerId)) this.releasePointerCapture(e.pointerId);
+  };
+
+  private onWheel = (e: WheelEvent) => {
+    if (this.readOnly || e.deltaY === 0) return;
+    e.preventDefault();
+    this.propose(this._power + (e.deltaY < 0 ? KEY_STEP : -KEY_STEP), "wheel");
+  };
+
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (this.readOnly) return;
+    const next: Record<string, number> = {
+      ArrowUp: this._power + KEY_STEP,
+      ArrowRight: this._power + KEY_STEP,
+      ArrowDown: this._power - KEY_STEP,
+      ArrowLeft: this._power - KEY_STEP,
+      PageUp: this._power + PAGE_STEP,
+      PageDown: this._power - PAGE_STEP,
+      Home: 0,
+      End: this._max,
+    };
+    if (!(e.key in next)) return;
+    e.preventDefault();
+    this.propose(next[e.key], "keyboard");
+  };
+
+  get readOnly() {
+    return this.hasAttribute("readonly");
+  }
+
+  set readOnly(v: boolean) {
+    this.toggleAttribute("readonly", Boolean(v));
+  }
+
   get power() {
     return this._power;
   }
 
+  /** "auto", "webgl" or "svg" (see renderer.ts); reads "auto" when unset or unknown. */
+  get renderer(): RendererPreference {
+    return parseRendererPreference(this.getAttribute("renderer"));
+  }
+
+  set renderer(v: RendererPreference) {
+    this.setAttribute("renderer", v);
+  }
+
+  /** Top of the scale */
+  get max() {
+    return this._max;
+  }
+
+  set max(v: number) {
+    const n = Number(v);
+    if (!Number.isFinite(n) || n <= 0 || n === this._max) return;
+    this.setAttribute("max", String(n));
+  }
+
   set power(v: number) {
     const n = Number(v);
     if (!Number.isFinite(n) || n === this._power) return;
     this.setAttribute("power", String(n));
   }
 
-  private async initPixi() {
-    this.app = new Application();
-    await this.app.init({ resizeTo: this.wrapper, backgroundAlpha: 0 });
-    this.wrapper.appendChild(this.app.canvas);
-
-    this.graphics = new Graphics();
-    this.app.stage.addChild(this.graphics);
-
+  // Static bar: no per-frame callback; render() invalidates the renderer when the value, the
+  // theme or the host size changed.
+  private mountRenderer() {
+    this.widgetRenderer?.destroy();
+    this.bar = undefined;
+    this.widgetRenderer = createRenderer(this.wrapper, this.renderer, {
+      fallbackSize: DEFAULT_SIZE,
+      onResize: () => this.render(),
+    });
+    this.bar = this.widgetRenderer.layer();
     this.render();
   }
 
   private render() {
-    if (!this.graphics) return;
-    this.graphics.clear();
+    const { widgetRenderer: renderer, bar } = this;
+    if (!renderer || !bar) return;
+    bar.clear();
 
-    const w = 55;
-    const h = 219;
+    // Geometry follows the host size (default 55×219, see :host), in CSS px.
+    const { width: w, height: h } = renderer;
 
-    const fillH = Math.max(0, Math.min(h - 2, (this._power / 6) * (h - 2)));
+    const fillH = Math.max(0, Math.min(h - 2, (this._power / this._max) * (h - 2)));
 
     const innerYBottom = h - 1;
     const innerW = w - 2;
 
-    this.graphics.rect(1, innerYBottom - fillH, innerW, fillH).fill({ color: 0x3b82f6 });
-    this.graphics.rect(0.5, 0.5, w - 1, h - 1).stroke({
-      width: 1,
-      color: 0xffffff,
-      alignment: 0.5,
+    bar.rect(1, innerYBottom - fillH, innerW, fillH, {
+      fill: { color: themeColor(this, "power") },
+    });
+    bar.rect(0.5, 0.5, w - 1, h - 1, {
+      stroke: { width: 1, color: themeColor(this, "outline") },
     });
+    renderer.invalidate();
   }
 }
 
 if (!customElements.get("engine-power")) customElements.define("engine-power", EngingePowerElement);
-
-export {};
@@ -0,0 +1,56 @@
+import { DIAL_ATTRIBUTES, DialElement } from "./dial-element";
+
+/** What the element reads when given a store: the engine speed in rpm. */
+export interface RpmSource {
+  rpm: number;
+}
+
+/**
+ * <engine-rpm>: the tachometer. Same dial as <engine-speed> (see DialElement),
+ * scaled 0–8000 rpm with tick labels in thousands.
+ */
+class EngineRpmElement extends DialElement<RpmSource> {
+  static get observedAttributes() {
+    return ["rpm", ...DIAL_ATTRIBUTES];
+  }
+
+  constructor() {
+    super({
+      min: 0,
+      max: 8000,
+      startAngle: -220,
+      endAngle: 40,
+      majorStep: 1000,
+      minorStep: 500,
+      label: "Engine speed",
+      announceStep: 1000,
+    });
+  }
+
+  protected get valueAttribute() {
+    return "rpm";
+  }
+
+  protected readStore(store: RpmSource) {
+    return store.rpm;
+  }
+
+  protected formatLabel(value: number) {
+    return String(Number((value / 1000).toFixed(1)));
+  }
+
+  // The visible unit is "×1000 rpm" for the tick labels; speak plain rpm.
+  protected formatValueText(value: number) {
+    return `${Math.round(value / 100) * 100} rpm`;
+  }
+
+  get rpm() {
+    return this.value;
+  }
+  set rpm(v: number) {
+    this.value = v;
+  }
+}
+
+if (!customElements.get("engine-rpm")) customElements.define("engine-rpm", EngineRpmElement);
+export {};
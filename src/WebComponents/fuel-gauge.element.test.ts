@@ -0,0 +1,27 @@
+import "./fuel-gauge.element";
+
+type FuelGauge = HTMLElement & { level: number; lowThreshold: number; low: boolean };
+
+beforeEach(() => {
+  // jsdom has no canvas, and says so on every getContext call.
+  jest.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+test("a detached gauge still takes new values", () => {
+  const el = document.createElement("fuel-gauge") as FuelGauge;
+  document.body.appendChild(el);
+  el.remove();
+
+  expect(() => {
+    el.level = 0.05;
+    el.lowThreshold = 0.2;
+  }).not.toThrow();
+  expect(el.low).toBe(true);
+
+  document.body.appendChild(el);
+  expect(el.getAttribute("aria-valuenow")).toBe("5");
+});
@@ -0,0 +1,203 @@
+/*
+  FuelGaugeElement (custom element: <fuel-gauge>)
+  -----------------------------------------------
+  A vertical bar showing how full the tank is, in the same style as <engine-power>.
+
+  Attributes (mirrored by properties):
+    • level (prop: level): fill as a 0–1 fraction of the tank, clamped
+    • low-threshold (prop: lowThreshold): level under which the gauge turns red, default 0.15
+
+  Low state:
+    Below the threshold the bar is drawn in red and the element carries a boolean `low`
+    attribute (read it as el.low), so page CSS can react with `fuel-gauge[low]`.
+    A `low-fuel` event (detail: { low }) fires whenever the state flips.
+
+  Accessibility:
+    The host is a meter named "Fuel level" with the level in percent; going low is announced.
+
+  Rendering:
+    The bar draws through a WidgetRenderer (see renderer.ts): the shared Pixi renderer where
+    WebGL works, SVG otherwise. The `renderer` attribute ("auto", "webgl" or "svg") forces one.
+
+  Colors (fill, low/threshold red, outline) come from the theme and repaint on theme change.
+
+  Usage:
+    <fuel-gauge level="0.4"></fuel-gauge>
+    el.level = store.fuelLevel;
+*/
+
+import { THEME_CHANGE_EVENT, themeColor } from "../Theme/theme";
+import { initMeter, LiveAnnouncer, setAria } from "./a11y";
+import {
+  createRenderer,
+  DrawLayer,
+  parseRendererPreference,
+  RendererPreference,
+  WidgetRenderer,
+} from "./renderer";
+
+const DEFAULT_LOW_THRESHOLD = 0.15;
+const DEFAULT_SIZE = { width: 55, height: 219 };
+
+class FuelGaugeElement extends HTMLElement {
+  static get observedAttributes() {
+    return ["level", "low-threshold", "renderer"];
+  }
+
+  private root = this.attachShadow({ mode: "open" });
+  private _level = 0;
+  private _lowThreshold = DEFAULT_LOW_THRESHOLD;
+
+  private wrapper!: HTMLDivElement;
+  private widgetRenderer?: WidgetRenderer;
+  private bar?: DrawLayer;
+  private announcer = new LiveAnnouncer({ step: 0 });
+
+  connectedCallback() {
+    this._level = this.#clampLevel(this.getAttribute("level"));
+
+    this.wrapper = document.createElement("div");
+    this.wrapper.style.width = "100%";
+    this.wrapper.style.height = "100%";
+    this.root.appendChild(this.wrapper);
+
+    const style = document.createElement("style");
+    style.textContent = `
+        canvas, svg { outline: none; }
+        :host { outline: none; display: inline-block; width: 55px; height: 219px; }
+      `;
+    this.root.appendChild(style);
+    this.root.appendChild(this.announcer.element);
+
+    initMeter(this, "Fuel level", 0, 100);
+    this.#updateAria();
+    this.#syncLowState();
+    window.addEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+    this.mountRenderer();
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+    this.widgetRenderer?.destroy();
+    this.widgetRenderer = undefined;
+    this.bar = undefined;
+    this.announcer.dispose();
+    this.root.innerHTML = "";
+  }
+
+  attributeChangedCallback(name: string, oldV: string | null, newV: string | null) {
+    if (oldV === newV) return;
+    if (name === "renderer") {
+      if (this.widgetRenderer) this.mountRenderer();
+      return;
+    }
+    if (name === "level") {
+      this._level = this.#clampLevel(newV);
+    } else if (name === "low-threshold") {
+      const n = Number(newV);
+      this._lowThreshold = newV != null && Number.isFinite(n) ? n : DEFAULT_LOW_THRESHOLD;
+    }
+    this.#updateAria();
+    this.#syncLowState();
+    this.render();
+  }
+
+  get level() {
+    return this._level;
+  }
+  set level(v: number) {
+    const n = Number(v);
+    if (!Number.isFinite(n) || n === this._level) return;
+    this.setAttribute("level", String(n));
+  }
+
+  get lowThreshold() {
+    return this._lowThreshold;
+  }
+  set lowThreshold(v: number) {
+    const n = Number(v);
+    if (!Number.isFinite(n)) return;
+    this.setAttribute("low-threshold", String(n));
+  }
+
+  /** "auto", "webgl" or "svg" (see renderer.ts); reads "auto" when unset or unknown. */
+  get renderer(): RendererPreference {
+    return parseRendererPreference(this.getAttribute("renderer"));
+  }
+
+  set renderer(v: RendererPreference) {
+    this.setAttribute("renderer", v);
+  }
+
+  private onThemeChange = () => this.render();
+
+  get low() {
+    return this._level < this._lowThreshold;
+  }
+
+  #clampLevel(v: string | null) {
+    const n = Number(v ?? 0);
+    return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+  }
+
+  #updateAria() {
+    if (!this.isConnected) return;
+    const percent = Math.round(this._level * 100);
+    setAria(this, {
+      "aria-valuenow": percent,
+      "aria-valuetext": `${percent}%${this.low ? ", low" : ""}`,
+    });
+  }
+
+  #syncLowState() {
+    const low = this.low;
+    if (low === this.hasAttribute("low")) return;
+    this.toggleAttribute("low", low);
+    if (low && this.isConnected) this.announcer.say("Fuel low");
+    this.dispatchEvent(new CustomEvent("low-fuel", { detail: { low } }));
+  }
+
+  // Static bar: no per-frame callback; render() invalidates the renderer when the value, the
+  // theme or the host size changed.
+  private mountRenderer() {
+    this.widgetRenderer?.destroy();
+    this.bar = undefined;
+    this.widgetRenderer = createRenderer(this.wrapper, this.renderer, {
+      fallbackSize: DEFAULT_SIZE,
+      onResize: () => this.render(),
+    });
+    this.bar = this.widgetRenderer.layer();
+    this.render();
+  }
+
+  private render() {
+    const { widgetRenderer: renderer, bar } = this;
+    if (!renderer || !bar) return;
+    bar.clear();
+
+    // Geometry follows the host size (default 55×219, see :host), in CSS px.
+    const { width: w, height: h } = renderer;
+
+    const danger = themeColor(this, "danger");
+    const fillH = this._level * (h - 2);
+    const innerYBottom = h - 1;
+    const innerW = w - 2;
+
+    bar.rect(1, innerYBottom - fillH, innerW, fillH, {
+      fill: { color: this.low ? danger : themeColor(this, "ok") },
+    });
+
+    // low-fuel threshold mark
+    const markY = innerYBottom - this._lowThreshold * (h - 2);
+    bar.line(0, markY, w, markY, { width: 1, color: danger });
+
+    bar.rect(0.5, 0.5, w - 1, h - 1, {
+      stroke: { width: 1, color: themeColor(this, "outline") },
+    });
+    renderer.invalidate();
+  }
+}
+
+if (!customElements.get("fuel-gauge")) customElements.define("fuel-gauge", FuelGaugeElement);
+
+export {};
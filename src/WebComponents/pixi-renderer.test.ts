@@ -0,0 +1,51 @@
+import { PixiRenderer } from "./pixi-renderer";
+
+jest.mock("pixi.js", () => ({
+  ...jest.requireActual("pixi.js"),
+  autoDetectRenderer: () => Promise.reject(new Error("no WebGL")),
+}));
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+beforeEach(() => {
+  // jsdom has no 2D canvas either, and says so on every getContext call.
+  jest.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+  document.body.innerHTML = "";
+});
+
+function mount(onResize: (width: number, height: number) => void = () => {}) {
+  const host = document.body.appendChild(document.createElement("div"));
+  const renderer = new PixiRenderer(host, { fallbackSize: { width: 40, height: 30 }, onResize });
+  return { host, renderer };
+}
+
+test("takes the fallback size while the host has none", () => {
+  const { renderer } = mount();
+  expect(renderer.kind).toBe("webgl");
+  expect([renderer.width, renderer.height]).toEqual([40, 30]);
+});
+
+test("switches to SVG when the shared renderer can't start", async () => {
+  const redraws: number[][] = [];
+  const { host, renderer } = mount((w, h) => redraws.push([w, h]));
+  const layer = renderer.layer();
+  await flush();
+
+  expect(renderer.kind).toBe("svg");
+  expect(host.querySelector("canvas")).toBeNull();
+  expect(host.querySelector("svg")?.getAttribute("viewBox")).toBe("0 0 40 30");
+  // The widget is asked to redraw, and its existing layer now draws into the SVG.
+  expect(redraws[redraws.length - 1]).toEqual([40, 30]);
+  layer.circle(5, 5, 2, { color: "#fff" });
+  expect(host.querySelectorAll("svg circle")).toHaveLength(1);
+});
+
+test("a renderer destroyed before the failure stays gone", async () => {
+  const { host, renderer } = mount();
+  renderer.destroy();
+  await flush();
+  expect(host.childElementCount).toBe(0);
+});
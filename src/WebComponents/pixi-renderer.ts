@@ -0,0 +1,205 @@
+/*
+  PixiRenderer
+  ------------
+  The "webgl" WidgetRenderer (see renderer.ts): a region of the shared Pixi renderer, whose
+  layers are Containers holding one Graphics for the shapes and the layer's Text objects on
+  top of it. Clearing a layer destroys its texts and their styles, so redrawing labels on
+  every resize doesn't pile them up on the stage.
+
+  Falling back: if the shared renderer fails to start (see shared-renderer.ts), the renderer
+  switches to an SvgRenderer in the same host. The widget keeps the layers it was given: each
+  is retargeted to a fresh SVG layer, then onResize runs so the widget redraws them. From
+  then on `kind` reads "svg".
+  The region takes the widget's fallbackSize while the host is 0×0, like the SVG renderer.
+*/
+
+import { Container, Graphics, Text, TextStyle as PixiTextStyle } from "pixi.js";
+import type {
+  DrawLayer,
+  Fill,
+  RendererKind,
+  RendererOptions,
+  Stroke,
+  TextStyle,
+  WidgetRenderer,
+} from "./renderer";
+import { RenderRegion, sharedRenderer } from "./shared-renderer";
+import { SvgRenderer } from "./svg-renderer";
+
+const pixiStroke = ({ width, color, alpha, cap, join }: Stroke) => ({
+  width,
+  color,
+  alpha: alpha ?? 1,
+  cap: cap ?? "butt",
+  join: join ?? "miter",
+});
+
+const pixiFill = ({ color, alpha }: Fill) => ({ color, alpha: alpha ?? 1 });
+
+class PixiLayer implements DrawLayer {
+  private graphics = new Graphics();
+  private texts = new Container();
+  private styles = new Map<string, PixiTextStyle>();
+
+  constructor(parent: Container) {
+    const container = new Container();
+    container.addChild(this.graphics, this.texts);
+    parent.addChild(container);
+  }
+
+  clear() {
+    this.graphics.clear();
+    for (const child of this.texts.removeChildren()) child.destroy();
+    for (const style of this.styles.values()) style.destroy();
+    this.styles.clear();
+  }
+
+  arc(cx: number, cy: number, r: number, a0: number, a1: number, ccw: boolean, stroke: Stroke) {
+    this.graphics.arc(cx, cy, r, a0, a1, ccw).stroke(pixiStroke(stroke));
+  }
+
+  line(x0: number, y0: number, x1: number, y1: number, stroke: Stroke) {
+    this.graphics.moveTo(x0, y0).lineTo(x1, y1).stroke(pixiStroke(stroke));
+  }
+
+  polyline(points: number[], stroke: Stroke) {
+    this.graphics.poly(points, false).stroke(pixiStroke(stroke));
+  }
+
+  polygon(points: number[], fill: Fill) {
+    this.graphics.poly(points, true).fill(pixiFill(fill));
+  }
+
+  circle(cx: number, cy: number, r: number, fill: Fill) {
+    this.graphics.circle(cx, cy, r).fill(pixiFill(fill));
+  }
+
+  rect(x: number, y: number, w: number, h: number, paint: { fill?: Fill; stroke?: Stroke }) {
+    if (paint.fill) this.graphics.rect(x, y, w, h).fill(pixiFill(paint.fill));
+    if (paint.stroke) this.graphics.rect(x, y, w, h).stroke(pixiStroke(paint.stroke));
+  }
+
+  text(value: string, x: number, y: number, style: TextStyle) {
+    const text = new Text({ text: value, style: this.#style(style) });
+    text.anchor.set(0.5);
+    text.position.set(x, y);
+    this.texts.addChild(text);
+  }
+
+  /** One TextStyle per look until the next clear(), shared by all labels using it */
+  #style({ color, size, family, weight }: TextStyle) {
+    const key = `${color}|${size}|${family}|${weight}`;
+    let style = this.styles.get(key);
+    if (!style) {
+      style = new PixiTextStyle({
+        fontFamily: family,
+        fontSize: size,
+        fill: color,
+        fontWeight: (weight ?? "normal") as PixiTextStyle["fontWeight"],
+      });
+      this.styles.set(key, style);
+    }
+    return style;
+  }
+}
+
+/** The layer handed to the widget; draws on Pixi, or on SVG after a fallback. */
+class SwitchLayer implements DrawLayer {
+  constructor(public target: DrawLayer) {}
+
+  clear() {
+    this.target.clear();
+  }
+
+  arc(cx: number, cy: number, r: number, a0: number, a1: number, ccw: boolean, stroke: Stroke) {
+    this.target.arc(cx, cy, r, a0, a1, ccw, stroke);
+  }
+
+  line(x0: number, y0: number, x1: number, y1: number, stroke: Stroke) {
+    this.target.line(x0, y0, x1, y1, stroke);
+  }
+
+  polyline(points: number[], stroke: Stroke) {
+    this.target.polyline(points, stroke);
+  }
+
+  polygon(points: number[], fill: Fill) {
+    this.target.polygon(points, fill);
+  }
+
+  circle(cx: number, cy: number, r: number, fill: Fill) {
+    this.target.circle(cx, cy, r, fill);
+  }
+
+  rect(x: number, y: number, w: number, h: number, paint: { fill?: Fill; stroke?: Stroke }) {
+    this.target.rect(x, y, w, h, paint);
+  }
+
+  text(value: string, x: number, y: number, style: TextStyle) {
+    this.target.text(value, x, y, style);
+  }
+}
+
+export class PixiRenderer implements WidgetRenderer {
+  private region: RenderRegion | null;
+  private svg: SvgRenderer | null = null;
+  private layers: SwitchLayer[] = [];
+
+  constructor(
+    private host: HTMLElement,
+    private options: RendererOptions
+  ) {
+    this.region = sharedRenderer.register(host, {
+      onFrame: options.onFrame,
+      onResize: options.onResize,
+      fallbackSize: options.fallbackSize,
+      onError: () => this.fallBack(),
+    });
+    host.appendChild(this.region.canvas);
+  }
+
+  get kind(): RendererKind {
+    return this.svg ? "svg" : "webgl";
+  }
+
+  get width() {
+    return this.svg?.width ?? this.region?.width ?? 0;
+  }
+
+  get height() {
+    return this.svg?.height ?? this.region?.height ?? 0;
+  }
+
+  layer() {
+    const layer = new SwitchLayer(
+      this.svg ? this.svg.layer() : new PixiLayer((this.region as RenderRegion).stage)
+    );
+    this.layers.push(layer);
+    return layer;
+  }
+
+  invalidate() {
+    this.region?.invalidate();
+  }
+
+  destroy() {
+    this.svg?.destroy();
+    this.svg = null;
+    this.region?.destroy();
+    this.region?.canvas.remove();
+    this.region = null;
+    this.layers = [];
+  }
+
+  private fallBack() {
+    const region = this.region;
+    if (!region) return;
+    // The widget may redraw while the SVG renderer starts up; those draws still land on Pixi.
+    this.svg = new SvgRenderer(this.host, this.options);
+    for (const layer of this.layers) layer.target = this.svg.layer();
+    region.destroy();
+    region.canvas.remove();
+    this.region = null;
+    this.options.onResize?.(this.svg.width, this.svg.height);
+  }
+}
@@ -0,0 +1,137 @@
+/*
+  Widget renderers
+  ----------------
+  The widgets (<engine-speed>, <engine-rpm>, <engine-power>, <fuel-gauge>, <speed-history>)
+  describe what they draw through a small renderer interface instead of calling Pixi
+  directly, so the same drawing code can paint through WebGL or as SVG:
+
+    • "webgl" (PixiRenderer, pixi-renderer.ts): a region of the page's shared Pixi renderer
+      (see shared-renderer.ts), the default wherever WebGL works; should that renderer fail
+      to start, it switches to SVG by itself
+    • "svg" (SvgRenderer, svg-renderer.ts): plain SVG elements in the widget's shadow DOM,
+      for machines without WebGL (kiosk VMs, headless browsers, jsdom); its markup can also
+      be snapshot-tested
+
+  A widget gets a WidgetRenderer from createRenderer(host, preference, options): "auto" (or
+  no preference) picks webgl when a WebGL context can be created, svg otherwise; "webgl" or
+  "svg" force one. Widgets take the preference from their `renderer` attribute.
+
+  Drawing happens on layers (renderer.layer()), stacked in creation order. A layer is
+  cleared and redrawn as a whole; angles are in radians, clockwise from 3 o'clock, and
+  coordinates in CSS px from the top-left corner. Callbacks work as with shared-renderer:
+  onFrame(dtMs) every frame for animated widgets, onResize(width, height) when the host's
+  size changes; static widgets call invalidate() after redrawing.
+*/
+
+import { PixiRenderer } from "./pixi-renderer";
+import { SvgRenderer } from "./svg-renderer";
+
+export type RendererKind = "webgl" | "svg";
+export type RendererPreference = RendererKind | "auto";
+
+export const RENDERER_PREFERENCES: RendererPreference[] = ["auto", "webgl", "svg"];
+
+export interface Stroke {
+  width: number;
+  color: string | number;
+  alpha?: number;
+  /** Line ends, default "butt" */
+  cap?: "butt" | "round";
+  /** Polyline corners, default "miter" */
+  join?: "miter" | "round";
+}
+
+export interface Fill {
+  color: string | number;
+  alpha?: number;
+}
+
+export interface TextStyle {
+  color: string | number;
+  /** CSS px */
+  size: number;
+  family: string;
+  weight?: string;
+}
+
+export interface DrawLayer {
+  clear(): void;
+  /** Circular arc from angle a0 to a1, counter-clockwise when ccw is set */
+  arc(
+    cx: number,
+    cy: number,
+    r: number,
+    a0: number,
+    a1: number,
+    ccw: boolean,
+    stroke: Stroke
+  ): void;
+  line(x0: number, y0: number, x1: number, y1: number, stroke: Stroke): void;
+  /** Open line through [x0, y0, x1, y1, ...] */
+  polyline(points: number[], stroke: Stroke): void;
+  /** Closed, filled polygon through [x0, y0, x1, y1, ...] */
+  polygon(points: number[], fill: Fill): void;
+  circle(cx: number, cy: number, r: number, fill: Fill): void;
+  rect(x: number, y: number, w: number, h: number, paint: { fill?: Fill; stroke?: Stroke }): void;
+  /** Text centered on (x, y) */
+  text(value: string, x: number, y: number, style: TextStyle): void;
+}
+
+export interface RendererOptions {
+  /** Called every frame while the widget is shown; for animated widgets */
+  onFrame?: (dtMs: number) => void;
+  /** Called when the host's size changes; static layers usually need a redraw */
+  onResize?: (width: number, height: number) => void;
+  /**
+   * Size (CSS px) to draw at while the host has none, e.g. before layout or in jsdom;
+   * the widget's default size
+   */
+  fallbackSize?: { width: number; height: number };
+}
+
+export interface WidgetRenderer {
+  readonly kind: RendererKind;
+  /** Drawing size in CSS px */
+  readonly width: number;
+  readonly height: number;
+  /** A new layer, above the ones created before it */
+  layer(): DrawLayer;
+  /** Asks for a repaint after drawing outside onFrame */
+  invalidate(): void;
+  /** Removes the drawing from the host and frees it */
+  destroy(): void;
+}
+
+let webgl: boolean | undefined;
+
+/** Whether this browser can create a WebGL context (checked once). */
+export function webglAvailable() {
+  // jsdom has no WebGL at all (and logs an error for every getContext call).
+  if (webgl === undefined && typeof WebGLRenderingContext === "undefined") webgl = false;
+  if (webgl === undefined) {
+    try {
+      const canvas = document.createElement("canvas");
+      webgl = Boolean(canvas.getContext("webgl2") ?? canvas.getContext("webgl"));
+    } catch {
+      webgl = false;
+    }
+  }
+  return webgl;
+}
+
+/** Reads a `renderer` attribute; anything unknown means "auto". */
+export function parseRendererPreference(v: string | null): RendererPreference {
+  return RENDERER_PREFERENCES.includes(v as RendererPreference)
+    ? (v as RendererPreference)
+    : "auto";
+}
+
+/** Creates the renderer a widget draws with and puts its canvas or SVG into `host`. */
+export function createRenderer(
+  host: HTMLElement,
+  preference: RendererPreference,
+  options: RendererOptions = {}
+): WidgetRenderer {
+  const kind = preference === "auto" ? (webglAvailable() ? "webgl" : "svg") : preference;
+  return kind === "webgl" ? new PixiRenderer(host, options) : new SvgRenderer(host, options);
+}
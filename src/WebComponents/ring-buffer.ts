@@ -0,0 +1,64 @@
+/*
+  RingBuffer
+  ----------
+  A fixed-capacity FIFO of numbers for rolling charts: pushing onto a full buffer overwrites
+  the oldest value, so memory stays constant and nothing is ever shifted or reallocated.
+
+    • push(v): appends v (dropping the oldest value when full)
+    • at(i): i-th value, 0 being the oldest
+    • stats(): min / max / average of what's stored (zeros when empty)
+*/
+
+export interface RingStats {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export class RingBuffer {
+  private data: Float64Array;
+  private start = 0;
+  private count = 0;
+
+  constructor(readonly capacity: number) {
+    this.data = new Float64Array(Math.max(1, Math.floor(capacity)));
+  }
+
+  get length() {
+    return this.count;
+  }
+
+  push(value: number) {
+    const cap = this.data.length;
+    if (this.count < cap) {
+      this.data[(this.start + this.count) % cap] = value;
+      this.count++;
+    } else {
+      this.data[this.start] = value;
+      this.start = (this.start + 1) % cap;
+    }
+  }
+
+  at(i: number) {
+    return this.data[(this.start + i) % this.data.length];
+  }
+
+  clear() {
+    this.start = 0;
+    this.count = 0;
+  }
+
+  stats(): RingStats {
+    if (this.count === 0) return { min: 0, max: 0, avg: 0 };
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    for (let i = 0; i < this.count; i++) {
+      const v = this.at(i);
+      if (v < min) min = v;
+      if (v > max) max = v;
+      sum += v;
+    }
+    return { min, max, avg: sum / this.count };
+  }
+}
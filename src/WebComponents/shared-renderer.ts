@@ -0,0 +1,231 @@
+/*
+  Shared Pixi renderer
+  --------------------
+  Every Pixi widget on the page draws through ONE WebGL renderer and ONE ticker, instead of
+  creating its own `Application` (each of which is a WebGL context; browsers cap those at a
+  handful per page).
+
+  How it works:
+    • A widget registers a region: `sharedRenderer.register(host, { onFrame, onResize })`.
+      It gets back a `RenderRegion` with its own `stage` (a Pixi Container to draw into)
+      and a plain 2D `canvas` to put in its shadow DOM. The region is usable right away;
+      the WebGL renderer is created lazily and asynchronously on first use.
+    • Host size is tracked with a ResizeObserver: on change the region's canvas is resized
+      and onResize(width, height) (CSS px) is called, so the widget can re-layout.
+    • Each frame, for every visible region the service:
+        1) calls onFrame(dtMs) (animated widgets: needles, arcs),
+        2) if the region changed (onFrame ran, or invalidate() was called), renders its
+           stage on the shared WebGL canvas and copies the result into the region's canvas.
+    • Regions that are off-screen (IntersectionObserver) or have no size skip all of that.
+    • High-DPI: the renderer and every region canvas use window.devicePixelRatio; when it
+      changes (zoom, moving the window to another screen) all regions are resized and
+      onResize runs again. Widgets keep drawing in CSS px.
+    • region.destroy() unregisters and frees the stage; the ticker stops with no regions left.
+    • While the host measures 0×0 (not laid out yet) a region takes its fallbackSize, if given.
+    • If the WebGL renderer can't be created, every region (and every later one) gets
+      onError(error) instead of frames; PixiRenderer then switches the widget to SVG.
+
+  Static widgets (bars) skip onFrame and call region.invalidate() when their value changes,
+  so they cost nothing while idle.
+*/
+
+import { autoDetectRenderer, Container, Renderer, Ticker } from "pixi.js";
+
+export interface RegionOptions {
+  /** Called every frame while the region is visible; for animated widgets */
+  onFrame?: (dtMs: number) => void;
+  /** Called when the host's size changes; static layers usually need a redraw */
+  onResize?: (width: number, height: number) => void;
+  /** Size (CSS px) to use while the host has none */
+  fallbackSize?: { width: number; height: number };
+  /** Called if the shared renderer fails to start; the region will never paint */
+  onError?: (error: unknown) => void;
+}
+
+export class RenderRegion {
+  readonly stage = new Container();
+  readonly canvas = document.createElement("canvas");
+  /** Size in CSS px */
+  width = 0;
+  height = 0;
+  /** Device pixels per CSS px of the canvas */
+  resolution = 1;
+
+  /** Set by the service's IntersectionObserver */
+  visible = true;
+  private dirty = true;
+  private ctx = this.canvas.getContext("2d");
+
+  constructor(
+    readonly host: HTMLElement,
+    readonly options: RegionOptions,
+    private service: SharedRenderer
+  ) {
+    this.canvas.style.display = "block";
+    this.resize(host.clientWidth, host.clientHeight, service.resolution);
+  }
+
+  /** Asks for a repaint on the next frame. */
+  invalidate() {
+    this.dirty = true;
+  }
+
+  destroy() {
+    this.service.unregister(this);
+    this.stage.destroy({ children: true });
+  }
+
+  /** Resizes the canvas to width × height CSS px at `resolution`; notifies the widget. */
+  resize(width: number, height: number, resolution: number) {
+    const fallback = this.options.fallbackSize;
+    if ((width === 0 || height === 0) && fallback) ({ width, height } = fallback);
+    if (width === this.width && height === this.height && resolution === this.resolution) return;
+    this.width = width;
+    this.height = height;
+    this.resolution = resolution;
+    this.canvas.width = Math.round(width * resolution);
+    this.canvas.height = Math.round(height * resolution);
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.dirty = true;
+    this.options.onResize?.(width, height);
+  }
+
+  /** Runs one frame for this region; returns true if it needs to be rendered. */
+  step(dtMs: number) {
+    if (!this.visible || this.width === 0 || this.height === 0) return false;
+    if (this.options.onFrame) {
+      this.options.onFrame(dtMs);
+      this.dirty = true;
+    }
+    return this.dirty;
+  }
+
+  /** Copies the top-left corner of the shared canvas (in device px) into this region's canvas. */
+  blit(source: CanvasImageSource) {
+    this.dirty = false;
+    if (!this.ctx) return;
+    const { width, height } = this.canvas;
+    this.ctx.clearRect(0, 0, width, height);
+    this.ctx.drawImage(source, 0, 0, width, height, 0, 0, width, height);
+  }
+}
+
+class SharedRenderer {
+  resolution = window.devicePixelRatio || 1;
+
+  private regions = new Set<RenderRegion>();
+  private ticker = new Ticker();
+  private renderer: Renderer | null = null;
+  private pending: Promise<Renderer> | null = null;
+  private observer: IntersectionObserver | null = null;
+  private hosts = new Map<Element, RenderRegion>();
+  private sizes: ResizeObserver | null = null;
+  private dprQuery: MediaQueryList | null = null;
+
+  constructor() {
+    this.ticker.add(this.frame);
+    this.watchResolution();
+  }
+
+  register(host: HTMLElement, options: RegionOptions = {}) {
+    const region = new RenderRegion(host, options, this);
+    this.regions.add(region);
+    this.hosts.set(host, region);
+    this.visibility()?.observe(host);
+    this.sizeObserver()?.observe(host);
+    this.init().then(
+      () => {
+        if (this.regions.size > 0) this.ticker.start();
+      },
+      (error) => {
+        if (this.regions.has(region)) options.onError?.(error);
+      }
+    );
+    return region;
+  }
+
+  unregister(region: RenderRegion) {
+    if (!this.regions.delete(region)) return;
+    this.hosts.delete(region.host);
+    this.observer?.unobserve(region.host);
+    this.sizes?.unobserve(region.host);
+    if (this.regions.size === 0) this.ticker.stop();
+  }
+
+  private init() {
+    this.pending ??= autoDetectRenderer({
+      backgroundAlpha: 0,
+      antialias: true,
+      width: 1,
+      height: 1,
+      resolution: this.resolution,
+    }).then((renderer) => (this.renderer = renderer));
+    return this.pending;
+  }
+
+  private visibility() {
+    if (!this.observer && typeof IntersectionObserver !== "undefined") {
+      this.observer = new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+          const region = this.hosts.get(entry.target);
+          if (!region) continue;
+          region.visible = entry.isIntersecting;
+          if (region.visible) region.invalidate();
+        }
+      });
+    }
+    return this.observer;
+  }
+
+  private sizeObserver() {
+    if (!this.sizes && typeof ResizeObserver !== "undefined") {
+      this.sizes = new ResizeObserver((entries) => {
+        for (const entry of entries) {
+          const { width, height } = entry.contentRect;
+          this.hosts.get(entry.target)?.resize(width, height, this.resolution);
+        }
+      });
+    }
+    return this.sizes;
+  }
+
+  /** A resolution media query matches only the current ratio, so re-arm it on every change. */
+  private watchResolution() {
+    this.dprQuery?.removeEventListener("change", this.onResolutionChange);
+    this.dprQuery = window.matchMedia?.(`(resolution: ${this.resolution}dppx)`) ?? null;
+    this.dprQuery?.addEventListener("change", this.onResolutionChange);
+  }
+
+  private onResolutionChange = () => {
+    this.resolution = window.devicePixelRatio || 1;
+    this.watchResolution();
+    const renderer = this.renderer;
+    if (renderer) renderer.resize(renderer.width, renderer.height, this.resolution);
+    for (const region of this.regions) {
+      region.resize(region.width, region.height, this.resolution);
+    }
+  };
+
+  private frame = (ticker: Ticker) => {
+    const renderer = this.renderer;
+    if (!renderer) return;
+    for (const region of this.regions) {
+      if (!region.step(ticker.deltaMS)) continue;
+
+      // The shared canvas only ever grows; each region renders into its top-left corner.
+      if (renderer.width < region.width || renderer.height < region.height) {
+        renderer.resize(
+          Math.max(renderer.width, region.width),
+          Math.max(renderer.height, region.height),
+          this.resolution
+        );
+      }
+      renderer.render({ container: region.stage, clear: true });
+      region.blit(renderer.canvas as HTMLCanvasElement);
+    }
+  };
+}
+
+/** The page-wide renderer every Pixi widget registers with. */
+export const sharedRenderer = new SharedRenderer();
@@ -0,0 +1,93 @@
+import "./speed-history.element";
+
+type SpeedHistory = HTMLElement & {
+  speed: number;
+  time: number | null;
+  window: number;
+  speedMax: number;
+  stats: { min: number; max: number; avg: number };
+};
+
+/** 60 s window over 240 samples: one sample every 250 ms. */
+const INTERVAL = 250;
+
+function mount() {
+  const el = document.createElement("speed-history") as SpeedHistory;
+  document.body.appendChild(el);
+  return el;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  // jsdom has no canvas, and says so on every getContext call.
+  jest.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+});
+afterEach(() => {
+  jest.restoreAllMocks();
+  document.body.innerHTML = "";
+  jest.useRealTimers();
+});
+
+test("a detached chart still takes new settings", () => {
+  const el = mount();
+  el.remove();
+
+  expect(() => {
+    el.window = 120;
+    el.speedMax = 200;
+    el.setAttribute("power-max", "8");
+    el.setAttribute("unit", "mph");
+  }).not.toThrow();
+  expect(el.window).toBe(120);
+
+  document.body.appendChild(el);
+  expect(el.shadowRoot?.querySelector("svg")).not.toBeNull();
+});
+
+describe("with a simulated time", () => {
+  test("samples only as the time advances", () => {
+    const el = mount();
+    el.speed = 40;
+    el.time = 0;
+    jest.advanceTimersByTime(10_000);
+    expect(el.stats.max).toBe(40);
+
+    // Paused: wall-clock time passes, the chart doesn't move.
+    el.speed = 100;
+    jest.advanceTimersByTime(10_000);
+    expect(el.stats.max).toBe(40);
+
+    el.time = INTERVAL;
+    expect(el.stats).toEqual({ min: 40, max: 100, avg: 70 });
+  });
+
+  test("takes one sample per interval crossed", () => {
+    const el = mount();
+    el.speed = 10;
+    el.time = 0;
+    el.speed = 30;
+    el.time = INTERVAL * 3 + 10;
+    // 0, 250, 500, 750
+    expect(el.stats.avg).toBe(25);
+    el.time = INTERVAL * 3 + 200;
+    expect(el.stats.avg).toBe(25);
+  });
+
+  test("starts over when the time goes back", () => {
+    const el = mount();
+    el.speed = 10;
+    el.time = 5000;
+    el.speed = 50;
+    el.time = 0;
+    expect(el.stats).toEqual({ min: 50, max: 50, avg: 50 });
+  });
+
+  test("falls back to the wall-clock timer when the time is removed", () => {
+    const el = mount();
+    el.time = 0;
+    el.time = null;
+    el.speed = 20;
+    jest.advanceTimersByTime(INTERVAL);
+    expect(el.stats.max).toBe(20);
+  });
+});
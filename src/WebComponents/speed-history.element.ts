@@ -0,0 +1,411 @@
+/*
+  SpeedHistoryElement (custom element: <speed-history>)
+  -----------------------------------------------------
+  A rolling chart of speed (line) and power (thinner line, own scale) over the last
+  `window` seconds, newest on the right, with the speed's min / avg / max drawn as guides and
+  written out above the chart.
+
+  Attributes (mirrored by properties):
+    • speed, power: current values; the chart samples them as time passes, so they can be
+      written as often as they like (every frame) at no extra cost
+    • time: simulated milliseconds (e.g. the store's clock.simTime); when set, a sample is
+      taken each time it crosses a sample boundary, so the chart stops with a paused clock
+      and follows the time scale. Without it the chart samples on a wall-clock timer
+    • window (prop: window): seconds shown, default 60 (5–3600)
+    • speed-max (prop: speedMax): top of the speed scale, default 130; the scale grows when
+      the history goes higher
+    • power-max (prop: powerMax): top of the power scale, default 6
+    • unit: speed unit shown with the figures, e.g. "km/h"
+    • renderer: "auto", "webgl" or "svg" (see below)
+
+  Store binding: like <engine-speed>, setting the `store` property binds speed (displaySpeed),
+  power and time (clock.simTime) through bindElement, so store updates land once per animation frame. The binding
+  pauses while the element is out of the document and resumes when it's put back.
+
+  History: a fixed number of samples (HISTORY_POINTS) per window, kept in ring buffers, so
+  memory and drawing cost don't depend on the window. Changing the window or the unit starts
+  a new history (old samples would be spaced or scaled wrong).
+
+  Drawing goes through a WidgetRenderer (see renderer.ts), the shared Pixi renderer where WebGL
+  works and SVG otherwise, on one static layer: the chart is redrawn when a sample is taken,
+  the host is resized or the theme changes. A detached chart keeps its properties but draws
+  nothing until it is connected again. Speed uses the theme's accent, power the power color;
+  guides use the tick color.
+
+  Accessibility: the host is a group named "Speed history"; the min / avg / max line is
+  plain text in the shadow DOM.
+
+  Usage:
+    <speed-history window="120" unit="km/h"></speed-history>
+    el.store = dashboardStore;
+*/
+
+import { bindElementDynamic } from "../Binding/bindElement";
+import { THEME_CHANGE_EVENT, themeColor } from "../Theme/theme";
+import {
+  createRenderer,
+  DrawLayer,
+  parseRendererPreference,
+  RendererPreference,
+  WidgetRenderer,
+} from "./renderer";
+import { RingBuffer } from "./ring-buffer";
+
+/** What the element reads when given a store. */
+export interface SpeedHistorySource {
+  displaySpeed: number;
+  power: number;
+  clock: { simTime: number };
+}
+
+/** Samples kept per window, whatever its length */
+export const HISTORY_POINTS = 240;
+
+const DEFAULT_WINDOW = 60;
+const MIN_WINDOW = 5;
+const MAX_WINDOW = 3600;
+const DEFAULT_SPEED_MAX = 130;
+const DEFAULT_POWER_MAX = 6;
+/** Drawing size while the host has none (jsdom, before layout) */
+const DEFAULT_SIZE = { width: 480, height: 120 };
+
+class SpeedHistoryElement extends HTMLElement {
+  static get observedAttributes() {
+    return ["speed", "power", "time", "window", "speed-max", "power-max", "unit", "renderer"];
+  }
+
+  private root = this.attachShadow({ mode: "open" });
+  private _speed = 0;
+  private _power = 0;
+  private _time: number | null = null;
+  private _window = DEFAULT_WINDOW;
+  private _speedMax = DEFAULT_SPEED_MAX;
+  private _powerMax = DEFAULT_POWER_MAX;
+
+  private speeds = new RingBuffer(HISTORY_POINTS);
+  private powers = new RingBuffer(HISTORY_POINTS);
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Simulated time of the next sample, null until the first one in `time` mode */
+  private nextSampleAt: number | null = null;
+
+  private wrapper!: HTMLDivElement;
+  private statsLabel!: HTMLSpanElement;
+  private widgetRenderer?: WidgetRenderer;
+  private chart?: DrawLayer;
+
+  private unbind?: () => void;
+  private _store?: SpeedHistorySource;
+
+  set store(s: SpeedHistorySource | undefined) {
+    if (s === this._store) return;
+    this._store = s;
+    this.#bindToStore(s);
+  }
+  get store() {
+    return this._store;
+  }
+
+  connectedCallback() {
+    this.root.innerHTML = /*html*/ `
+      <style>
+        :host {
+          display: block;
+          width: 100%;
+          height: 120px;
+        }
+        .wrap {
+          position: relative;
+          width: 100%;
+          height: 100%;
+        }
+        .stats {
+          position: absolute;
+          top: 2px;
+          left: 6px;
+          font: 600 12px/1 Inter, system-ui, sans-serif;
+          color: var(--dash-tick, #e5e7eb);
+          font-variant-numeric: tabular-nums;
+          pointer-events: none;
+        }
+      </style>
+      <div class="wrap"><span class="stats"></span></div>
+    `;
+    this.wrapper = this.root.querySelector(".wrap") as HTMLDivElement;
+    this.statsLabel = this.root.querySelector(".stats") as HTMLSpanElement;
+    if (!this.hasAttribute("role")) this.setAttribute("role", "group");
+    if (!this.hasAttribute("aria-label")) this.setAttribute("aria-label", "Speed history");
+    window.addEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+
+    this.#restartSampling();
+    this.#mountRenderer();
+    if (!this.unbind) this.#bindToStore(this._store); // the store outlives a move
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener(THEME_CHANGE_EVENT, this.onThemeChange);
+    if (this.timer != null) clearInterval(this.timer);
+    this.timer = null;
+    this.unbind?.();
+    this.unbind = undefined;
+    this.widgetRenderer?.destroy();
+    this.widgetRenderer = undefined;
+    this.chart = undefined;
+    this.root.innerHTML = "";
+  }
+
+  attributeChangedCallback(name: string, oldV: string | null, newV: string | null) {
+    if (oldV === newV) return;
+    switch (name) {
+      case "renderer":
+        if (this.widgetRenderer) this.#mountRenderer();
+        return;
+      case "speed":
+        this._speed = this.#num(newV, 0);
+        return;
+      case "power":
+        this._power = this.#num(newV, 0);
+        return;
+      case "time": {
+        const wasTimed = this._time != null;
+        this._time = newV == null ? null : this.#num(newV, 0);
+        if (wasTimed !== (this._time != null)) this.#restartSampling();
+        if (this._time != null) this.#sampleAt(this._time);
+        return;
+      }
+      case "window":
+        this._window = Math.min(MAX_WINDOW, Math.max(MIN_WINDOW, this.#num(newV, DEFAULT_WINDOW)));
+        this.#restartSampling();
+        break;
+      case "speed-max":
+        this._speedMax = this.#positive(newV, DEFAULT_SPEED_MAX);
+        break;
+      case "power-max":
+        this._powerMax = this.#positive(newV, DEFAULT_POWER_MAX);
+        break;
+      case "unit":
+        this.speeds.clear();
+        this.powers.clear();
+        break;
+    }
+    this.render();
+  }
+
+  get speed() {
+    return this._speed;
+  }
+  set speed(v: number) {
+    this.#reflect("speed", v, this._speed);
+  }
+
+  get power() {
+    return this._power;
+  }
+  set power(v: number) {
+    this.#reflect("power", v, this._power);
+  }
+
+  /** Simulated milliseconds driving the sampling; null samples on a wall-clock timer */
+  get time() {
+    return this._time;
+  }
+  set time(v: number | null) {
+    if (v == null) this.removeAttribute("time");
+    else this.#reflect("time", v, this._time ?? NaN);
+  }
+
+  /** Seconds of history shown */
+  get window() {
+    return this._window;
+  }
+  set window(v: number) {
+    this.#reflect("window", v, this._window);
+  }
+
+  get speedMax() {
+    return this._speedMax;
+  }
+  set speedMax(v: number) {
+    this.#reflect("speed-max", v, this._speedMax);
+  }
+
+  get powerMax() {
+    return this._powerMax;
+  }
+  set powerMax(v: number) {
+    this.#reflect("power-max", v, this._powerMax);
+  }
+
+  get unit() {
+    return this.getAttribute("unit") ?? "";
+  }
+  set unit(v: string) {
+    this.setAttribute("unit", v);
+  }
+
+  /** "auto", "webgl" or "svg" (see renderer.ts); reads "auto" when unset or unknown. */
+  get renderer(): RendererPreference {
+    return parseRendererPreference(this.getAttribute("renderer"));
+  }
+  set renderer(v: RendererPreference) {
+    this.setAttribute("renderer", v);
+  }
+
+  /** Min / max / average speed over the visible history */
+  get stats() {
+    return this.speeds.stats();
+  }
+
+  private onThemeChange = () => this.render();
+
+  #bindToStore(s?: SpeedHistorySource) {
+    this.unbind?.();
+    this.unbind = s
+      ? bindElementDynamic(this, s, {
+          speed: (st: SpeedHistorySource) => st.displaySpeed,
+          power: (st: SpeedHistorySource) => st.power,
+          time: (st: SpeedHistorySource) => st.clock.simTime,
+        })
+      : undefined;
+  }
+
+  #restartSampling() {
+    if (!this.isConnected) return;
+    if (this.timer != null) clearInterval(this.timer);
+    this.timer = null;
+    this.speeds.clear();
+    this.powers.clear();
+    this.nextSampleAt = null;
+    if (this._time == null) this.timer = setInterval(this.sample, this.#sampleInterval());
+  }
+
+  #sampleInterval() {
+    return (this._window * 1000) / HISTORY_POINTS;
+  }
+
+  /** Takes the samples due by simulated time `t`: one per interval crossed. */
+  #sampleAt(t: number) {
+    const interval = this.#sampleInterval();
+    let next = this.nextSampleAt;
+    if (next == null || t < next - interval) {
+      // First sample, or time went back (a reset): start a new history.
+      if (next != null) {
+        this.speeds.clear();
+        this.powers.clear();
+      }
+      next = t;
+    }
+    // A long jump only fills the window; older samples would scroll out anyway.
+    next = Math.max(next, t - (HISTORY_POINTS - 1) * interval);
+    if (t < next) return;
+    for (; next <= t; next += interval) {
+      this.speeds.push(this._speed);
+      this.powers.push(this._power);
+    }
+    this.nextSampleAt = next;
+    this.render();
+  }
+
+  private sample = () => {
+    this.speeds.push(this._speed);
+    this.powers.push(this._power);
+    this.render();
+  };
+
+  /** (Re)creates the renderer from the `renderer` attribute and draws the chart on it. */
+  #mountRenderer() {
+    this.widgetRenderer?.destroy();
+    this.chart = undefined;
+    this.widgetRenderer = createRenderer(this.wrapper, this.renderer, {
+      fallbackSize: DEFAULT_SIZE,
+      onResize: () => this.render(),
+    });
+    this.chart = this.widgetRenderer.layer();
+    this.render();
+  }
+
+  private render() {
+    const { widgetRenderer: renderer, chart } = this;
+    if (!renderer || !chart) return;
+    chart.clear();
+    const { width: w, height: h } = renderer;
+    const stats = this.speeds.stats();
+    this.#renderStats(stats);
+    if (w === 0 || h === 0) return;
+
+    const accent = themeColor(this, "accent");
+    const tick = themeColor(this, "tick");
+    const top = 18;
+    const bottom = h - 1;
+    const plotH = Math.max(1, bottom - top);
+    const dx = w / (HISTORY_POINTS - 1);
+    const speedScale = Math.max(this._speedMax, stats.max);
+    const ySpeed = (v: number) => bottom - (Math.max(0, v) / speedScale) * plotH;
+    const yPower = (v: number) =>
+      bottom - (Math.min(this._powerMax, Math.max(0, v)) / this._powerMax) * plotH;
+
+    chart.line(0, bottom, w, bottom, { width: 1, color: tick, alpha: 0.4 });
+
+    const n = this.speeds.length;
+    if (n > 0) {
+      // min / max / avg guides across the chart
+      for (const [value, alpha] of [
+        [stats.max, 0.35],
+        [stats.avg, 0.6],
+        [stats.min, 0.35],
+      ]) {
+        const y = ySpeed(value);
+        chart.line(0, y, w, y, { width: 1, color: tick, alpha });
+      }
+      chart.polyline(this.#points(this.powers, yPower, dx, w), {
+        width: 1,
+        color: themeColor(this, "power"),
+        alpha: 0.8,
+      });
+      chart.polyline(this.#points(this.speeds, ySpeed, dx, w), {
+        width: 2,
+        color: accent,
+        join: "round",
+      });
+    }
+    renderer.invalidate();
+  }
+
+  /** A buffer's points, right-aligned: the newest sample sits on the right edge. */
+  #points(buf: RingBuffer, y: (v: number) => number, dx: number, w: number) {
+    const n = buf.length;
+    const x0 = w - (n - 1) * dx;
+    const points: number[] = [];
+    for (let i = 0; i < n; i++) points.push(x0 + i * dx, y(buf.at(i)));
+    return points;
+  }
+
+  #renderStats({ min, max, avg }: { min: number; max: number; avg: number }) {
+    const unit = this.unit ? ` ${this.unit}` : "";
+    this.statsLabel.textContent =
+      this.speeds.length === 0
+        ? ""
+        : `min ${Math.round(min)} · avg ${Math.round(avg)} · max ${Math.round(max)}${unit}`;
+  }
+
+  #reflect(name: string, v: number, current: number) {
+    const n = Number(v);
+    if (!Number.isFinite(n) || n === current) return;
+    this.setAttribute(name, String(n));
+  }
+
+  #positive(v: string | null, fallback: number) {
+    const n = Number(v);
+    return v != null && Number.isFinite(n) && n > 0 ? n : fallback;
+  }
+
+  #num(v: string | null, fallback: number) {
+    const n = Number(v);
+    return v != null && Number.isFinite(n) ? n : fallback;
+  }
+}
+
+if (!customElements.get("speed-history")) {
+  customElements.define("speed-history", SpeedHistoryElement);
+}
+
+export {};
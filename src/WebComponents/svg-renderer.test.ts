@@ -0,0 +1,78 @@
+import "./engine-power.element";
+import "./engine-rpm.element";
+import "./engine-speed.element";
+import "./fuel-gauge.element";
+import "./speed-history.element";
+import { arcPath } from "./svg-renderer";
+
+/** Mounts a gauge on the SVG renderer and lets its needle settle. */
+function draw(tag: string, attributes: Record<string, string>) {
+  const el = document.createElement(tag);
+  el.setAttribute("renderer", "svg");
+  for (const [name, value] of Object.entries(attributes)) el.setAttribute(name, value);
+  document.body.appendChild(el);
+  jest.advanceTimersByTime(3000);
+  return el.shadowRoot?.querySelector("svg");
+}
+
+beforeEach(() => jest.useFakeTimers());
+afterEach(() => {
+  document.body.innerHTML = "";
+  jest.useRealTimers();
+});
+
+describe("gauges drawn as SVG", () => {
+  test("<engine-speed>", () => {
+    expect(draw("engine-speed", { speed: "62", unit: "km/h", marker: "90" })).toMatchSnapshot();
+  });
+
+  test("<engine-rpm> past its redline", () => {
+    expect(draw("engine-rpm", { rpm: "6800", alert: "" })).toMatchSnapshot();
+  });
+
+  test("<engine-power>", () => {
+    expect(draw("engine-power", { power: "2.5" })).toMatchSnapshot();
+  });
+
+  test("<fuel-gauge> under its low mark", () => {
+    expect(draw("fuel-gauge", { level: "0.1" })).toMatchSnapshot();
+  });
+
+  test("<speed-history>", () => {
+    const el = document.createElement("speed-history");
+    el.setAttribute("renderer", "svg");
+    el.setAttribute("unit", "km/h");
+    document.body.appendChild(el);
+    // One sample per 250 ms of simulated time (a 60 s window)
+    for (let i = 0; i < 40; i++) {
+      el.setAttribute("speed", String(30 + i * 2));
+      el.setAttribute("power", String((i % 10) / 2));
+      el.setAttribute("time", String(i * 250));
+    }
+    expect(el.shadowRoot?.querySelector("svg")).toMatchSnapshot();
+  });
+
+  test("a settled needle draws the same every frame", () => {
+    const svg = draw("engine-speed", { speed: "40" });
+    const before = svg?.outerHTML;
+    jest.advanceTimersByTime(1000);
+    expect(svg?.outerHTML).toBe(before);
+  });
+
+  test("the drawing takes the widget's default size in jsdom", () => {
+    const svg = draw("engine-power", { power: "1" });
+    expect(svg?.getAttribute("viewBox")).toBe("0 0 55 219");
+  });
+});
+
+describe("arcPath", () => {
+  test("draws a quarter clockwise with the small-arc flag", () => {
+    expect(arcPath(0, 0, 10, 0, Math.PI / 2, false)).toBe("M 10 0 A 10 10 0 0 1 0 10");
+  });
+
+  test("draws a whole turn as two halves", () => {
+    expect(arcPath(0, 0, 10, 0, Math.PI * 2, false)).toBe(
+      "M 10 0 A 10 10 0 1 1 -10 0 A 10 10 0 1 1 10 0"
+    );
+  });
+});
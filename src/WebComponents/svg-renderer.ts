@@ -0,0 +1,212 @@
+/*
+  SvgRenderer
+  -----------
+  The "svg" WidgetRenderer (see renderer.ts): one <svg> in the host, one <g> per layer, and
+  plain SVG shapes drawn in CSS px (the viewBox follows the host size). Needs no WebGL or
+  canvas, so it also works in jsdom, where the output is ordinary markup.
+
+    • Size: tracked with a ResizeObserver where there is one; while the host measures 0×0
+      (not laid out yet, or jsdom) it draws at the widget's fallbackSize.
+    • Frames: onFrame runs on requestAnimationFrame while the renderer lives; without
+      requestAnimationFrame (jsdom) only static drawing happens, and step(dtMs) runs a frame
+      by hand.
+    • invalidate() has nothing to do: shapes are in the DOM as soon as they're drawn.
+*/
+
+import type {
+  DrawLayer,
+  Fill,
+  RendererOptions,
+  Stroke,
+  TextStyle,
+  WidgetRenderer,
+} from "./renderer";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+const TAU = Math.PI * 2;
+
+type Attributes = Record<string, string | number | undefined>;
+
+/** Pixi takes 0xRRGGBB numbers, SVG wants CSS colors. */
+const cssColor = (color: string | number) =>
+  typeof color === "number" ? `#${color.toString(16).padStart(6, "0")}` : color;
+
+const strokeAttributes = ({ width, color, alpha, cap, join }: Stroke): Attributes => ({
+  fill: "none",
+  stroke: cssColor(color),
+  "stroke-width": width,
+  "stroke-opacity": alpha,
+  "stroke-linecap": cap === "round" ? "round" : undefined,
+  "stroke-linejoin": join === "round" ? "round" : undefined,
+});
+
+const fillAttributes = ({ color, alpha }: Fill): Attributes => ({
+  fill: cssColor(color),
+  "fill-opacity": alpha,
+});
+
+const round = (n: number) => Number(n.toFixed(2));
+
+/** [x0, y0, x1, y1, ...] as an SVG points list */
+function pointList(points: number[]) {
+  const pairs: string[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    pairs.push(`${round(points[i])},${round(points[i + 1])}`);
+  }
+  return pairs.join(" ");
+}
+
+/** Path data for an arc; a full turn is drawn as two halves (one SVG arc can't close). */
+export function arcPath(cx: number, cy: number, r: number, a0: number, a1: number, ccw: boolean) {
+  // Like canvas arcs: a sweep the wrong way round wraps, whole turns draw a full circle.
+  const raw = ccw ? a0 - a1 : a1 - a0;
+  let sweep = ((raw % TAU) + TAU) % TAU;
+  if (sweep === 0 && raw !== 0) sweep = TAU;
+  const dir = ccw ? -1 : 1;
+  const point = (a: number) => `${round(cx + Math.cos(a) * r)} ${round(cy + Math.sin(a) * r)}`;
+  const flag = ccw ? 0 : 1;
+  if (sweep >= TAU - 1e-6) {
+    const mid = a0 + dir * Math.PI;
+    return `M ${point(a0)} A ${r} ${r} 0 1 ${flag} ${point(mid)} A ${r} ${r} 0 1 ${flag} ${point(a0)}`;
+  }
+  const large = sweep > Math.PI ? 1 : 0;
+  return `M ${point(a0)} A ${r} ${r} 0 ${large} ${flag} ${point(a0 + dir * sweep)}`;
+}
+
+class SvgLayer implements DrawLayer {
+  readonly group = document.createElementNS(SVG_NS, "g");
+
+  clear() {
+    this.group.replaceChildren();
+  }
+
+  arc(cx: number, cy: number, r: number, a0: number, a1: number, ccw: boolean, stroke: Stroke) {
+    this.#add("path", { d: arcPath(cx, cy, r, a0, a1, ccw), ...strokeAttributes(stroke) });
+  }
+
+  line(x0: number, y0: number, x1: number, y1: number, stroke: Stroke) {
+    this.#add("line", {
+      x1: round(x0),
+      y1: round(y0),
+      x2: round(x1),
+      y2: round(y1),
+      ...strokeAttributes(stroke),
+    });
+  }
+
+  polyline(points: number[], stroke: Stroke) {
+    this.#add("polyline", { points: pointList(points), ...strokeAttributes(stroke) });
+  }
+
+  polygon(points: number[], fill: Fill) {
+    this.#add("polygon", { points: pointList(points), ...fillAttributes(fill) });
+  }
+
+  circle(cx: number, cy: number, r: number, fill: Fill) {
+    this.#add("circle", { cx: round(cx), cy: round(cy), r: round(r), ...fillAttributes(fill) });
+  }
+
+  rect(x: number, y: number, w: number, h: number, paint: { fill?: Fill; stroke?: Stroke }) {
+    this.#add("rect", {
+      x: round(x),
+      y: round(y),
+      width: round(Math.max(0, w)),
+      height: round(Math.max(0, h)),
+      ...(paint.stroke ? strokeAttributes(paint.stroke) : { fill: "none" }),
+      ...(paint.fill ? fillAttributes(paint.fill) : {}),
+    });
+  }
+
+  text(value: string, x: number, y: number, style: TextStyle) {
+    const text = this.#add("text", {
+      x: round(x),
+      y: round(y),
+      "text-anchor": "middle",
+      "dominant-baseline": "central",
+      fill: cssColor(style.color),
+      "font-family": style.family,
+      "font-size": style.size,
+      "font-weight": style.weight,
+    });
+    text.textContent = value;
+  }
+
+  #add(tag: string, attributes: Attributes) {
+    const el = document.createElementNS(SVG_NS, tag);
+    for (const [name, value] of Object.entries(attributes)) {
+      if (value !== undefined) el.setAttribute(name, String(value));
+    }
+    this.group.appendChild(el);
+    return el;
+  }
+}
+
+export class SvgRenderer implements WidgetRenderer {
+  readonly kind = "svg";
+  readonly svg = document.createElementNS(SVG_NS, "svg");
+  width = 0;
+  height = 0;
+
+  private sizes: ResizeObserver | null = null;
+  private frame = 0;
+  private lastFrame = 0;
+
+  constructor(
+    host: HTMLElement,
+    private options: RendererOptions
+  ) {
+    this.svg.style.display = "block";
+    this.svg.setAttribute("aria-hidden", "true");
+    host.appendChild(this.svg);
+    this.resize(host.clientWidth, host.clientHeight);
+
+    if (typeof ResizeObserver !== "undefined") {
+      this.sizes = new ResizeObserver(([entry]) =>
+        this.resize(entry.contentRect.width, entry.contentRect.height)
+      );
+      this.sizes.observe(host);
+    }
+    if (options.onFrame && typeof requestAnimationFrame === "function") {
+      this.frame = requestAnimationFrame(this.tick);
+    }
+  }
+
+  layer() {
+    const layer = new SvgLayer();
+    this.svg.appendChild(layer.group);
+    return layer;
+  }
+
+  invalidate() {}
+
+  /** Runs one frame now; for environments without requestAnimationFrame. */
+  step(dtMs: number) {
+    this.options.onFrame?.(dtMs);
+  }
+
+  destroy() {
+    if (this.frame) cancelAnimationFrame(this.frame);
+    this.frame = 0;
+    this.sizes?.disconnect();
+    this.sizes = null;
+    this.svg.remove();
+  }
+
+  private resize(width: number, height: number) {
+    const fallback = this.options.fallbackSize;
+    if ((width === 0 || height === 0) && fallback) ({ width, height } = fallback);
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+    this.svg.setAttribute("width", String(width));
+    this.svg.setAttribute("height", String(height));
+    this.svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+    this.options.onResize?.(width, height);
+  }
+
+  private tick = (now: number) => {
+    this.step(this.lastFrame ? now - this.lastFrame : 1000 / 60);
+    this.lastFrame = now;
+    this.frame = requestAnimationFrame(this.tick);
+  };
+}
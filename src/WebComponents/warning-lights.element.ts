@@ -0,0 +1,157 @@
+/*
+  WarningLightsElement (custom element: <warning-lights>)
+  -------------------------------------------------------
+  A row of tell-tales, one per active warning, colored by severity. Critical warnings
+  blink until acknowledged; a latched warning (its condition has cleared) is drawn dimmed.
+
+  Input:
+    • warnings (property only): WarningLight[] — typically the store's `activeWarnings`
+      (see src/Warnings/WarningMonitor.ts); order is kept, so pass them most severe first
+
+  Events:
+    • warning-acknowledge (detail: { id }): the user clicked a light; the host decides
+      what acknowledging means (the layout wiring calls store.warnings.acknowledge(id))
+
+  Accessibility:
+    The host is a group named "Warnings"; each light is a button named after its severity and
+    label, and newly raised warnings are read out through a polite live region.
+
+  Usage:
+    el.warnings = [{ id: "overspeed", label: "Over 110 km/h", severity: "critical",
+                     icon: "overspeed", latched: false, acknowledged: false }];
+*/
+
+import { LiveAnnouncer } from "./a11y";
+import type { WarningIcon, WarningSeverity } from "../Warnings/rules";
+
+export interface WarningLight {
+  id: string;
+  label: string;
+  severity: WarningSeverity;
+  icon: WarningIcon;
+  latched: boolean;
+  acknowledged: boolean;
+}
+
+const escapeHtml = (v: string) => v.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// 24×24 stroke icons
+const ICONS: Record<WarningIcon, string> = {
+  overspeed: `<path d="M4 16a8 8 0 1 1 16 0" /><path d="M12 16l4-5" />`,
+  engine: `<path d="M3 10h3V8h3V6h6v2h2l2 3v5h-2v2H8l-2-2H3z" />`,
+  brake: `<circle cx="12" cy="12" r="6" /><path d="M12 9v3M12 15v.01" /><path d="M5 6a9 9 0 0 0 0 12M19 6a9 9 0 0 1 0 12" />`,
+  fuel: `<path d="M5 20V5a1 1 0 0 1 1-1h7a1 1 0 0 1 1 1v15M4 20h11M7 8h5M14 9h2l2 2v6a1 1 0 0 0 2 0V9l-3-3" />`,
+  generic: `<path d="M12 4l9 16H3z" /><path d="M12 10v4M12 17v.01" />`,
+};
+
+class WarningLightsElement extends HTMLElement {
+  private root = this.attachShadow({ mode: "open" });
+  private _warnings: WarningLight[] = [];
+  private _lastHtml = "";
+
+  // Lights are re-rendered into `content`; the live region next to it must survive renders.
+  private content = document.createElement("div");
+  private announcer = new LiveAnnouncer({ step: 0 });
+
+  constructor() {
+    super();
+    this.content.style.display = "contents";
+    this.root.append(this.content, this.announcer.element);
+  }
+
+  connectedCallback() {
+    if (!this.hasAttribute("role")) this.setAttribute("role", "group");
+    if (!this.hasAttribute("aria-label")) this.setAttribute("aria-label", "Warnings");
+    this.root.addEventListener("click", this.onClick);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    this.root.removeEventListener("click", this.onClick);
+    this.announcer.dispose();
+  }
+
+  get warnings(): WarningLight[] {
+    return this._warnings;
+  }
+  set warnings(v: WarningLight[]) {
+    const next = Array.isArray(v) ? v : [];
+    const known = new Set(this._warnings.map((w) => w.id));
+    const raised = next.filter((w) => !known.has(w.id));
+    this._warnings = next;
+    if (raised.length > 0) {
+      this.announcer.say(raised.map((w) => `${w.severity}: ${w.label}`).join(". "));
+    }
+    this.render();
+  }
+
+  private onClick = (e: Event) => {
+    const light = (e.target as Element | null)?.closest<HTMLElement>("[data-id]");
+    if (!light) return;
+    this.dispatchEvent(
+      new CustomEvent("warning-acknowledge", { detail: { id: light.dataset.id }, bubbles: true })
+    );
+  };
+
+  private render() {
+    const lights = this._warnings
+      .map((w) => {
+        const classes = ["light", w.severity];
+        if (w.latched) classes.push("latched");
+        if (w.severity === "critical" && !w.acknowledged) classes.push("blink");
+        return /*html*/ `
+          <button class="${classes.join(" ")}" data-id="${escapeHtml(w.id)}"
+            title="${escapeHtml(w.label)} (click to acknowledge)"
+            aria-label="${escapeHtml(`${w.severity}: ${w.label}${w.acknowledged ? ", acknowledged" : ""}`)}">
+            <svg viewBox="0 0 24 24" aria-hidden="true">${ICONS[w.icon] ?? ICONS.generic}</svg>
+          </button>`;
+      })
+      .join("");
+    const html = /*html*/ `
+      <style>
+        :host {
+          display: flex;
+          gap: 6px;
+          min-height: 32px;
+          align-items: center;
+          justify-content: center;
+        }
+        .light {
+          width: 32px;
+          height: 32px;
+          padding: 4px;
+          border: none;
+          background: none;
+          cursor: pointer;
+        }
+        svg {
+          width: 100%;
+          height: 100%;
+          fill: none;
+          stroke: currentColor;
+          stroke-width: 2;
+          stroke-linecap: round;
+          stroke-linejoin: round;
+        }
+        .info { color: var(--dash-info, #3b82f6); }
+        .warning { color: var(--dash-caution, #f59e0b); }
+        .critical { color: var(--dash-danger, #ef4444); }
+        .latched { opacity: 0.5; }
+        .blink { animation: blink 0.8s steps(1) infinite; }
+        @keyframes blink {
+          50% { opacity: 0.15; }
+        }
+      </style>
+      ${lights}
+    `;
+    if (html === this._lastHtml) return;
+    this._lastHtml = html;
+    this.content.innerHTML = html;
+  }
+}
+
+if (!customElements.get("warning-lights")) {
+  customElements.define("warning-lights", WarningLightsElement);
+}
+
+export {};
@@ -1,26 +1,87 @@
-import "react"
+import "react";
+import type { RendererPreference } from "./WebComponents/renderer";
 declare module "react" {
   // Augment React's JSX namespace
   namespace JSX {
     interface IntrinsicElements {
-      "engine-power": React.DetailedHTMLProps<
-        React.HTMLAttributes<HTMLElement>,
-        HTMLElement
-      > & {
+      "engine-power": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {
         power?: number | string;
+        /** Top of the scale, default 6 */
+        max?: number | string;
+        /** Boolean attribute: ignore pointer, wheel and keyboard input */
+        readonly?: boolean | string;
+        /** "auto" (default), "webgl" or "svg" */
+        renderer?: RendererPreference;
       };
-      "engine-speed": React.DetailedHTMLProps<
-        React.HTMLAttributes<HTMLElement>,
-        HTMLElement
-      > & {
+      "engine-speed": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {
         speed?: number | string;
+        min?: number | string;
+        max?: number | string;
+        "start-angle"?: number | string;
+        "end-angle"?: number | string;
+        "major-step"?: number | string;
+        "minor-step"?: number | string;
+        /** JSON array of { from, to, color } bands */
+        zones?: string;
+        redline?: number | string;
+        unit?: string;
+        /** Boolean attribute: tints the progress arc */
+        alert?: boolean | string;
+        /** Value marked on the arc, e.g. a cruise-control target */
+        marker?: number | string;
+        /** "auto" (default), "webgl" or "svg" */
+        renderer?: RendererPreference;
+      };
+      "engine-rpm": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {
+        rpm?: number | string;
+        min?: number | string;
+        max?: number | string;
+        "start-angle"?: number | string;
+        "end-angle"?: number | string;
+        "major-step"?: number | string;
+        "minor-step"?: number | string;
+        /** JSON array of { from, to, color } bands */
+        zones?: string;
+        redline?: number | string;
+        unit?: string;
+        /** Boolean attribute: tints the progress arc */
+        alert?: boolean | string;
+        /** Value marked on the arc, e.g. a cruise-control target */
+        marker?: number | string;
+        /** "auto" (default), "webgl" or "svg" */
+        renderer?: RendererPreference;
+      };
+      "warning-lights": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement>;
+      "fuel-gauge": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {
+        /** 0–1 fraction of the tank */
+        level?: number | string;
+        "low-threshold"?: number | string;
+        /** "auto" (default), "webgl" or "svg" */
+        renderer?: RendererPreference;
+      };
+      "speed-history": React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {
+        speed?: number | string;
+        power?: number | string;
+        /** Simulated milliseconds driving the sampling */
+        time?: number | string;
+        /** Seconds of history shown */
+        window?: number | string;
+        "speed-max"?: number | string;
+        "power-max"?: number | string;
+        unit?: string;
+        /** "auto" (default), "webgl" or "svg" */
+        renderer?: RendererPreference;
       };
       "distance-tracker": React.DetailedHTMLProps<
         React.HTMLAttributes<HTMLElement>,
         HTMLElement
       > & {
         distance?: number | string;
+        "speed-unit"?: string;
+        "distance-unit"?: string;
+        /** Top of the speed range, exposed as the speed meter's aria-valuemax */
+        "speed-max"?: number | string;
       };
     }
   }
-}
\ No newline at end of file
+}